@@ -1,74 +1,242 @@
 import 'dotenv/config';
 import { ConsumeMessage } from 'amqplib';
 import { getConnectionManager, Channel } from '../lib/connection';
-import { setupTopology, QUEUES } from '../lib/topology';
+import { QUEUES, ROUTING_KEYS } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { Publisher } from '../lib/publisher';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { Deduplicator, createIdStore } from '../lib/idempotency';
+import { parseEnvelope } from '../lib/validation';
+import { RollingWindows } from '../lib/windows';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { Logger, createLogger } from '../lib/logger';
 import {
-  MessageEnvelope,
   CarbonIntensityData,
   CarbonGenerationData,
+  CarbonForecastData,
+  CarbonSummaryData,
   MESSAGE_TYPES,
+  MESSAGE_SOURCES,
+  isBackfill,
+  createCarbonSummaryMessage,
 } from '../lib/messages';
 
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  statePath: process.env.AGGREGATOR_STATE_PATH || './data/aggregator/windows.json',
+  summaryInterval: parseInt(process.env.AGGREGATOR_SUMMARY_INTERVAL_MS || '300000', 10),
+  windowPrefetch: parseInt(process.env.AGGREGATOR_WINDOW_PREFETCH || '10', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.AGGREGATOR_HTTP_PORT || '9104', 10),
+};
+
 // ============================================================================
 // Consumer Identity (unique per instance for competing consumer demo)
 // ============================================================================
 
 const CONSUMER_ID = `Aggregator-${Math.random().toString(36).slice(2, 6)}`;
 
+const log = createLogger(CONSUMER_ID);
+
 // ============================================================================
 // State
 // ============================================================================
 
-let channel: Channel | null = null;
-let consumerTag: string | null = null;
 let isShuttingDown = false;
+let summaryTimer: NodeJS.Timeout | null = null;
+
+// Set when readings arrive, cleared once a summary of them is published
+let windowsDirty = false;
+let windowReadings = 0;
+
+const deduplicator = new Deduplicator(createIdStore('aggregator'));
+const windows = new RollingWindows(CONFIG.statePath);
+
+const publisher = new Publisher({
+  source: MESSAGE_SOURCES.AGGREGATOR,
+  logPrefix: CONSUMER_ID,
+});
+
+// Prefetch 1 for fair distribution across competing consumers
+const consumer = new Consumer({
+  queue: QUEUES.CARBON,
+  prefetch: 1,
+  handler: handleMessage,
+  logPrefix: CONSUMER_ID,
+});
+
+// feeds.aggregator allows a single active consumer: that instance sees every
+// reading and owns the rolling windows, the others stand by until it goes away
+const windowConsumer = new Consumer({
+  queue: QUEUES.AGGREGATOR,
+  prefetch: CONFIG.windowPrefetch,
+  handler: handleWindowMessage,
+  onActive: reloadWindows,
+  logPrefix: `${CONSUMER_ID}/windows`,
+});
 
 // ============================================================================
 // Message Processing
 // ============================================================================
 
-function processIntensity(data: CarbonIntensityData): void {
-  console.log(`  Forecast: ${data.forecast} gCO2/kWh | Actual: ${data.actual ?? 'pending'} | Index: ${data.index}`);
-  console.log(`  Period: ${data.periodStart} → ${data.periodEnd}`);
+function processIntensity(data: CarbonIntensityData, messageLog: Logger): void {
+  messageLog.info(`Forecast: ${data.forecast} gCO2/kWh | Actual: ${data.actual ?? 'pending'} | Index: ${data.index}`);
+  messageLog.info(`Period: ${data.periodStart} → ${data.periodEnd}`);
 }
 
-function processGeneration(data: CarbonGenerationData): void {
+function processGeneration(data: CarbonGenerationData, messageLog: Logger): void {
   const formatted = data.mix
     .sort((a, b) => b.percentage - a.percentage)
     .map((s) => `${s.fuel}: ${s.percentage.toFixed(1)}%`)
     .join(' | ');
-  console.log(`  ${formatted}`);
+  messageLog.info(formatted);
+}
+
+function processForecast(data: CarbonForecastData, messageLog: Logger): void {
+  if (data.periods.length === 0) {
+    messageLog.info(`${data.horizon} forecast: no periods`);
+    return;
+  }
+
+  const sorted = [...data.periods].sort((a, b) => a.forecast - b.forecast);
+  const lowest = sorted[0];
+  const highest = sorted[sorted.length - 1];
+  const first = data.periods[0];
+  const last = data.periods[data.periods.length - 1];
+
+  messageLog.info(`${data.horizon} forecast: ${data.periods.length} periods, ${first.periodStart} → ${last.periodEnd}`);
+  messageLog.info(`Lowest: ${lowest.forecast} gCO2/kWh at ${lowest.periodStart} | Highest: ${highest.forecast} gCO2/kWh at ${highest.periodStart}`);
 }
 
 // ============================================================================
 // Message Handler
 // ============================================================================
 
-function handleMessage(msg: ConsumeMessage | null): void {
-  if (!msg || !channel) return;
-
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
   try {
-    const envelope = JSON.parse(msg.content.toString()) as MessageEnvelope;
-    const routingKey = msg.fields.routingKey;
+    const envelope = parseEnvelope(msg.content);
+    const messageLog = log.forMessage(envelope, getOriginalRoutingKey(msg));
+
+    const processed = await deduplicator.process(envelope.id, () => {
+      // Backfilled history arrives out of order, so it is reported apart from live readings
+      messageLog.info(isBackfill(msg.properties.headers) ? 'Processing backfilled' : 'Processing');
+
+      switch (envelope.type) {
+        case MESSAGE_TYPES.CARBON_INTENSITY:
+          processIntensity(envelope.data as CarbonIntensityData, messageLog);
+          break;
+        case MESSAGE_TYPES.CARBON_GENERATION:
+          processGeneration(envelope.data as CarbonGenerationData, messageLog);
+          break;
+        case MESSAGE_TYPES.CARBON_FORECAST:
+          processForecast(envelope.data as CarbonForecastData, messageLog);
+          break;
+        default:
+          messageLog.warn(`Unknown message type: ${envelope.type}`);
+      }
+    });
 
-    console.log(`[${CONSUMER_ID}] Processing ${routingKey} | ${envelope.id}`);
+    if (!processed) {
+      messageLog.info('Skipping duplicate');
+    }
+
+    channel.ack(msg);
+  } catch (error) {
+    const outcome = await handleFailure(channel, msg, QUEUES.CARBON, error);
+    log.error(`Failed to process message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+/**
+ * Runs when this instance becomes the active window consumer. It may be
+ * taking over from another instance, so it merges that instance's snapshot
+ * before adding to its own stale windows.
+ */
+function reloadWindows(): void {
+  windows.reload();
+  const held = windows.size;
+  log.info(`Reloaded windows: ${held.intensity} intensity, ${held.generation} generation reading(s)`);
+}
+
+/**
+ * Adds a reading to the rolling windows; keyed by period, so redeliveries are
+ * harmless. The windows are snapshotted before the ack, so a reading is never
+ * acked and then lost when the active instance goes away.
+ */
+async function handleWindowMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
 
     switch (envelope.type) {
       case MESSAGE_TYPES.CARBON_INTENSITY:
-        processIntensity(envelope.data as CarbonIntensityData);
+        windows.addIntensity(envelope.data as CarbonIntensityData);
         break;
       case MESSAGE_TYPES.CARBON_GENERATION:
-        processGeneration(envelope.data as CarbonGenerationData);
+        windows.addGeneration(envelope.data as CarbonGenerationData);
         break;
       default:
-        console.log(`  Unknown message type: ${envelope.type}`);
+        log.forMessage(envelope, getOriginalRoutingKey(msg)).info('Ignoring for windows');
+        channel.ack(msg);
+        return;
     }
 
+    windowsDirty = true;
+    windowReadings++;
+    windows.save();
     channel.ack(msg);
   } catch (error) {
-    console.error(`[${CONSUMER_ID}] Failed to process message:`, (error as Error).message);
-    channel.nack(msg, false, false);
+    const outcome = await handleFailure(channel, msg, QUEUES.AGGREGATOR, error);
+    log.error(`Failed to add reading to windows (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+function logSummary(summary: CarbonSummaryData): void {
+  for (const w of summary.windows) {
+    const { intensity, generation } = w;
+    log.info(
+      `${w.window}: forecast ${intensity.averageForecast ?? '-'} | actual ${intensity.averageActual ?? '-'} | ` +
+        `MAE ${intensity.meanAbsoluteError ?? '-'} gCO2/kWh (${intensity.periods} periods) | ` +
+        `renewables ${generation.renewablePercentage ?? '-'}% (${generation.readings} readings)`
+    );
+  }
+}
+
+/**
+ * Publishes a summary if readings arrived since the last one, then snapshots
+ * the windows. Standby instances receive nothing and so never publish.
+ */
+async function publishSummary(): Promise<void> {
+  if (!windowsDirty) return;
+  windowsDirty = false;
+
+  const summary = windows.summarize();
+
+  try {
+    await publisher.publish(createCarbonSummaryMessage(summary), ROUTING_KEYS.CARBON_SUMMARY);
+    log.info(`Published ${ROUTING_KEYS.CARBON_SUMMARY}`);
+    logSummary(summary);
+  } catch (error) {
+    windowsDirty = true;
+    log.error('Failed to publish summary', { error });
   }
+
+  windows.save();
 }
 
 // ============================================================================
@@ -79,21 +247,33 @@ async function shutdown(): Promise<void> {
   if (isShuttingDown) return;
   isShuttingDown = true;
 
-  console.log(`\n[${CONSUMER_ID}] Shutting down...`);
+  log.info(`Shutting down...`);
 
-  if (channel && consumerTag) {
-    try {
-      await channel.cancel(consumerTag);
-      console.log(`[${CONSUMER_ID}] Consumer cancelled`);
-    } catch {
-      // Ignore errors during shutdown
-    }
+  if (summaryTimer) {
+    clearInterval(summaryTimer);
+    summaryTimer = null;
   }
 
+  await consumer.stop();
+  await windowConsumer.stop();
+  await publishSummary();
+  publisher.stop();
+
+  // A standby never received anything; saving would overwrite the active
+  // instance's snapshot with a stale one
+  if (windowReadings > 0) {
+    windows.save();
+  }
+
+  const stats = deduplicator.getStats();
+  log.info(`Duplicates skipped: ${stats.hits}, processed: ${stats.misses}`);
+
+  await shutdownTracing();
+
   const manager = getConnectionManager();
   await manager.close();
 
-  console.log(`[${CONSUMER_ID}] Shutdown complete`);
+  log.info(`Shutdown complete`);
   process.exit(0);
 }
 
@@ -102,31 +282,38 @@ async function shutdown(): Promise<void> {
 // ============================================================================
 
 async function main(): Promise<void> {
-  console.log(`[${CONSUMER_ID}] Starting Carbon Aggregator Consumer...`);
+  log.info(`Starting Carbon Aggregator Consumer...`);
 
   // Register shutdown handlers
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
-  // Connect to RabbitMQ
-  const manager = getConnectionManager();
-  channel = await manager.getChannel();
-
-  // Ensure topology exists
-  await setupTopology(channel);
+  startHttpServer(CONFIG.httpPort, CONSUMER_ID);
+  initTracing(MESSAGE_SOURCES.AGGREGATOR);
 
-  // Set prefetch to 1 for fair distribution across competing consumers
-  await channel.prefetch(1);
+  // Connect, ensure topology exists and start consuming from feeds.carbon queue.
+  // The consumer resubscribes by itself after a broker restart.
+  await consumer.start();
+  await publisher.start();
+  await windowConsumer.start();
 
-  // Start consuming from feeds.carbon queue
-  const { consumerTag: tag } = await channel.consume(QUEUES.CARBON, handleMessage);
-  consumerTag = tag;
+  summaryTimer = setInterval(() => {
+    publishSummary().catch(() => {
+      // Failures are logged by publishSummary; the next tick retries
+    });
+  }, CONFIG.summaryInterval);
 
-  console.log(`[${CONSUMER_ID}] Listening on queue: ${QUEUES.CARBON} (prefetch=1)`);
-  console.log(`[${CONSUMER_ID}] Waiting for messages... (Ctrl+C to exit)`);
+  const held = windows.size;
+  log.info(`Windows: ${held.intensity} intensity, ${held.generation} generation reading(s) from ${CONFIG.statePath}`);
+  log.info(`Listening on queue: ${QUEUES.CARBON} (prefetch=1)`);
+  log.info(
+    `Listening on queue: ${QUEUES.AGGREGATOR} (single active consumer, ` +
+      `summary every ${CONFIG.summaryInterval}ms)`
+  );
+  log.info(`Waiting for messages... (Ctrl+C to exit)`);
 }
 
 main().catch((error) => {
-  console.error(`[${CONSUMER_ID}] Fatal error:`, error.message);
+  log.error('Fatal error', { error });
   process.exit(1);
 });
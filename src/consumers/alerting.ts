@@ -0,0 +1,190 @@
+import 'dotenv/config';
+import { ConsumeMessage } from 'amqplib';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { QUEUES } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { Publisher } from '../lib/publisher';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { parseEnvelope } from '../lib/validation';
+import { AlertEngine, loadAlertRules } from '../lib/alerts';
+import { createAlertSinks } from '../lib/alert-sinks';
+import { AlertData, MESSAGE_SOURCES, createAlertMessage, isBackfill } from '../lib/messages';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('Alerting');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  rulesFile: process.env.ALERT_RULES_FILE || './alert-rules.json',
+  statePath: process.env.ALERT_STATE_PATH || './data/alerting/state.json',
+  sinks: (process.env.ALERT_SINKS || 'stdout,topic')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0),
+  webhookUrl: process.env.ALERT_WEBHOOK_URL,
+  webhookTimeout: parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS || '5000', 10),
+  // How often silence rules are checked
+  checkInterval: parseInt(process.env.ALERT_CHECK_INTERVAL_MS || '60000', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.ALERT_HTTP_PORT || '9107', 10),
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+let isShuttingDown = false;
+let silenceTimer: NodeJS.Timeout | null = null;
+
+const rules = loadAlertRules(CONFIG.rulesFile);
+const engine = new AlertEngine(rules, CONFIG.statePath);
+
+const publisher = new Publisher({
+  source: MESSAGE_SOURCES.ALERTING,
+  logPrefix: 'Alerting',
+});
+
+const sinks = createAlertSinks(CONFIG.sinks, {
+  publisher,
+  webhookUrl: CONFIG.webhookUrl,
+  webhookTimeout: CONFIG.webhookTimeout,
+});
+
+// A single instance owns the alert state; prefetch 1 evaluates readings in order
+const consumer = new Consumer({
+  queue: QUEUES.ALERTING,
+  prefetch: 1,
+  handler: handleMessage,
+  logPrefix: 'Alerting',
+});
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Sends each state change to every sink. A failing sink is logged and does not
+ * hold back the others; the state change is recorded either way, so it is
+ * never sent twice.
+ */
+async function dispatch(events: AlertData[]): Promise<void> {
+  for (const event of events) {
+    const message = createAlertMessage(event);
+    const results = await Promise.allSettled(sinks.map((sink) => sink.send(message)));
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        log.error(`${sinks[i].name} sink failed`, {
+          ruleId: event.ruleId,
+          state: event.state,
+          error: result.reason,
+        });
+      }
+    });
+  }
+
+  if (events.length > 0) {
+    engine.save();
+  }
+}
+
+async function checkSilence(): Promise<void> {
+  await dispatch(engine.checkSilence());
+}
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
+
+    // Historical readings say nothing about the current state of the grid
+    if (isBackfill(msg.properties.headers)) {
+      channel.ack(msg);
+      return;
+    }
+
+    await dispatch(engine.evaluate(envelope));
+    channel.ack(msg);
+  } catch (error) {
+    const outcome = await handleFailure(channel, msg, QUEUES.ALERTING, error);
+    log.error(`Failed to evaluate message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+async function shutdown(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  log.info('Shutting down...');
+
+  if (silenceTimer) {
+    clearInterval(silenceTimer);
+    silenceTimer = null;
+  }
+
+  await consumer.stop();
+  publisher.stop();
+  engine.save();
+
+  log.info(`Alerts still firing: ${engine.activeCount}`);
+
+  await shutdownTracing();
+
+  const manager = getConnectionManager();
+  await manager.close();
+
+  log.info('Shutdown complete');
+  process.exit(0);
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  log.info('Starting Alerting Consumer...');
+  log.info(`${rules.length} rule(s) from ${CONFIG.rulesFile}, sinks: ${CONFIG.sinks.join(', ')}`);
+  if (engine.activeCount > 0) {
+    log.info(`${engine.activeCount} alert(s) still firing from a previous run`);
+  }
+
+  // Register shutdown handlers
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startHttpServer(CONFIG.httpPort, 'Alerting');
+  initTracing(MESSAGE_SOURCES.ALERTING);
+
+  await publisher.start();
+  await consumer.start();
+
+  silenceTimer = setInterval(() => {
+    checkSilence().catch((error) => {
+      log.error('Silence check failed', { error });
+    });
+  }, CONFIG.checkInterval);
+
+  log.info(`Listening on queue: ${QUEUES.ALERTING} (prefetch=1)`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
+}
+
+main().catch((error) => {
+  log.error('Fatal error', { error });
+  process.exit(1);
+});
@@ -0,0 +1,224 @@
+import 'dotenv/config';
+import { ConsumeMessage } from 'amqplib';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { QUEUES, ROUTING_KEYS } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { Publisher } from '../lib/publisher';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { parseEnvelope } from '../lib/validation';
+import { CorrelationJoiner, JoinResult } from '../lib/correlation';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+import {
+  CarbonIntensityData,
+  CarbonGenerationData,
+  WeatherCurrentData,
+  MESSAGE_TYPES,
+  MESSAGE_SOURCES,
+  createCorrelationMessage,
+  isBackfill,
+} from '../lib/messages';
+
+const log = createLogger('Correlation');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  joinWindow: parseInt(process.env.CORRELATION_JOIN_WINDOW_MS || '1800000', 10),
+  // 7 days of half-hour periods
+  sampleSize: parseInt(process.env.CORRELATION_SAMPLE_SIZE || '336', 10),
+  statePath: process.env.CORRELATION_STATE_PATH || './data/correlation/state.json',
+  checkInterval: parseInt(process.env.CORRELATION_CHECK_INTERVAL_MS || '60000', 10),
+  prefetch: parseInt(process.env.CORRELATION_PREFETCH || '10', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.CORRELATION_HTTP_PORT || '9108', 10),
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+let isShuttingDown = false;
+let closeTimer: NodeJS.Timeout | null = null;
+let lateReadings = 0;
+
+// Set once this instance becomes the active consumer. A standby neither closes
+// periods nor saves, which would overwrite the active instance's snapshot
+let isActive = false;
+
+const joiner = new CorrelationJoiner({
+  joinWindow: CONFIG.joinWindow,
+  sampleSize: CONFIG.sampleSize,
+  statePath: CONFIG.statePath,
+});
+
+const publisher = new Publisher({
+  source: MESSAGE_SOURCES.CORRELATION,
+  logPrefix: 'Correlation',
+});
+
+// feeds.correlation allows a single active consumer, which sees both streams whole
+const consumer = new Consumer({
+  queue: QUEUES.CORRELATION,
+  prefetch: CONFIG.prefetch,
+  handler: handleMessage,
+  onActive: takeOver,
+  logPrefix: 'Correlation',
+});
+
+// ============================================================================
+// Joined Periods
+// ============================================================================
+
+/**
+ * Runs when this instance becomes the active consumer. It may be taking over
+ * from another instance, so it merges that instance's snapshot first.
+ */
+function takeOver(): void {
+  isActive = true;
+  joiner.reload();
+  log.info(`Reloaded ${joiner.openPeriods} open period(s)`);
+}
+
+/** Publishes every period whose join window has passed, then snapshots the rest */
+async function closePeriods(): Promise<void> {
+  if (!isActive) return;
+
+  const { joined, incomplete } = joiner.close();
+
+  for (const data of joined) {
+    await publisher.publish(createCorrelationMessage(data), ROUTING_KEYS.CORRELATION);
+
+    const { windSpeedVsWindShare, temperatureVsIntensity } = data.correlation;
+    log.info(
+      `Published ${data.periodStart}: wind ${data.weather.windSpeed} m/s vs ` +
+        `${data.carbon.windPercentage ?? '-'}% (r=${windSpeedVsWindShare.coefficient ?? '-'}), ` +
+        `${data.weather.temperature}°C vs ${data.carbon.intensity ?? '-'} gCO2/kWh ` +
+        `(r=${temperatureVsIntensity.coefficient ?? '-'})`
+    );
+  }
+  if (incomplete > 0) {
+    log.info(`Dropped ${incomplete} period(s) without both carbon and weather readings`);
+  }
+
+  joiner.save();
+}
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
+    const routingKey = getOriginalRoutingKey(msg);
+
+    // There is no weather history to join backfilled periods with
+    if (isBackfill(msg.properties.headers)) {
+      channel.ack(msg);
+      return;
+    }
+
+    let result: JoinResult;
+    switch (envelope.type) {
+      case MESSAGE_TYPES.CARBON_INTENSITY:
+        result = joiner.addIntensity(envelope.data as CarbonIntensityData);
+        break;
+      case MESSAGE_TYPES.CARBON_GENERATION:
+        result = joiner.addGeneration(envelope.data as CarbonGenerationData);
+        break;
+      case MESSAGE_TYPES.WEATHER_CURRENT:
+        result = joiner.addObservation(envelope.data as WeatherCurrentData);
+        break;
+      default:
+        log.forMessage(envelope, routingKey).info('Ignoring');
+        channel.ack(msg);
+        return;
+    }
+
+    if (result === 'late') {
+      lateReadings++;
+      log.forMessage(envelope, routingKey).info('Late for a closed period, dropped');
+    } else {
+      // Snapshot before the ack, so an acked reading survives a crash or takeover
+      joiner.save();
+    }
+
+    channel.ack(msg);
+  } catch (error) {
+    const outcome = await handleFailure(channel, msg, QUEUES.CORRELATION, error);
+    log.error(`Failed to join message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+async function shutdown(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  log.info('Shutting down...');
+
+  if (closeTimer) {
+    clearInterval(closeTimer);
+    closeTimer = null;
+  }
+
+  await consumer.stop();
+  publisher.stop();
+  if (isActive) {
+    joiner.save();
+  }
+
+  log.info(`Open periods saved: ${joiner.openPeriods}, late readings dropped: ${lateReadings}`);
+
+  await shutdownTracing();
+
+  const manager = getConnectionManager();
+  await manager.close();
+
+  log.info('Shutdown complete');
+  process.exit(0);
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  log.info('Starting Carbon-Weather Correlation Consumer...');
+  log.info(`Join window: ${CONFIG.joinWindow}ms, stats over the last ${CONFIG.sampleSize} period(s)`);
+
+  // Register shutdown handlers
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startHttpServer(CONFIG.httpPort, 'Correlation');
+  initTracing(MESSAGE_SOURCES.CORRELATION);
+
+  await publisher.start();
+  await consumer.start();
+
+  closeTimer = setInterval(() => {
+    closePeriods().catch((error) => {
+      log.error('Failed to close periods', { error });
+    });
+  }, CONFIG.checkInterval);
+
+  log.info(`Listening on queue: ${QUEUES.CORRELATION} (single active consumer, prefetch=${CONFIG.prefetch})`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
+}
+
+main().catch((error) => {
+  log.error('Fatal error', { error });
+  process.exit(1);
+});
@@ -0,0 +1,191 @@
+import 'dotenv/config';
+import { ConsumeMessage } from 'amqplib';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { QUEUES, ROUTING_KEYS } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { Publisher } from '../lib/publisher';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { parseEnvelope } from '../lib/validation';
+import { findGreenWindows, remainingAverage } from '../lib/green-windows';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+import {
+  CarbonForecastData,
+  CarbonForecastHorizon,
+  CARBON_FORECAST_HORIZONS,
+  GreenWindow,
+  MESSAGE_TYPES,
+  MESSAGE_SOURCES,
+  createGreenWindowMessage,
+} from '../lib/messages';
+
+const log = createLogger('GreenWindow');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function parseHorizon(value: string): CarbonForecastHorizon {
+  if (!(CARBON_FORECAST_HORIZONS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown forecast horizon "${value}" (expected ${CARBON_FORECAST_HORIZONS.join(', ')})`);
+  }
+  return value as CarbonForecastHorizon;
+}
+
+function parseWindowHours(value: string): number {
+  const hours = parseFloat(value);
+  // Forecasts come in half-hour periods
+  if (!Number.isFinite(hours) || hours <= 0 || !Number.isInteger(hours * 2)) {
+    throw new Error(`GREEN_WINDOW_HOURS must be a positive multiple of 0.5, got "${value}"`);
+  }
+  return hours;
+}
+
+const CONFIG = {
+  windowHours: parseWindowHours(process.env.GREEN_WINDOW_HOURS || '3'),
+  horizon: parseHorizon(process.env.GREEN_WINDOW_HORIZON || 'fw48h'),
+  count: parseInt(process.env.GREEN_WINDOW_COUNT || '3', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.GREEN_WINDOW_HTTP_PORT || '9106', 10),
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+let isShuttingDown = false;
+
+// Recommendation last published, compared to decide whether to publish again
+let lastFingerprint: string | null = null;
+
+const publisher = new Publisher({
+  source: MESSAGE_SOURCES.GREEN_WINDOW,
+  logPrefix: 'GreenWindow',
+});
+
+// A single instance owns the last published recommendation
+const consumer = new Consumer({
+  queue: QUEUES.GREEN_WINDOW,
+  prefetch: 1,
+  handler: handleMessage,
+  logPrefix: 'GreenWindow',
+});
+
+// ============================================================================
+// Recommendation
+// ============================================================================
+
+/** Only the chosen windows count; the horizon average drifts with every period that passes */
+function fingerprint(windows: GreenWindow[]): string {
+  return JSON.stringify(windows.map((w) => [w.start, w.end, w.averageForecast]));
+}
+
+async function recommend(forecast: CarbonForecastData): Promise<void> {
+  const windows = findGreenWindows(forecast.periods, {
+    windowHours: CONFIG.windowHours,
+    count: CONFIG.count,
+  });
+
+  const current = fingerprint(windows);
+  if (current === lastFingerprint) {
+    log.info(`Recommendation unchanged (forecast fetched ${forecast.fetchedAt})`);
+    return;
+  }
+
+  const message = createGreenWindowMessage({
+    horizon: forecast.horizon,
+    forecastFetchedAt: forecast.fetchedAt,
+    windowHours: CONFIG.windowHours,
+    horizonAverage: remainingAverage(forecast.periods),
+    windows,
+  });
+
+  await publisher.publish(message, ROUTING_KEYS.CARBON_GREEN_WINDOW);
+  lastFingerprint = current;
+
+  log.info(`Published ${ROUTING_KEYS.CARBON_GREEN_WINDOW}`, { messageId: message.id });
+  if (windows.length === 0) {
+    log.info(`No ${CONFIG.windowHours}h window in the remaining forecast`);
+  }
+  for (const w of windows) {
+    log.info(`#${w.rank}: ${w.start} → ${w.end}, ${w.averageForecast} gCO2/kWh (${w.index})`);
+  }
+}
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
+
+    if (envelope.type !== MESSAGE_TYPES.CARBON_FORECAST) {
+      log.forMessage(envelope, getOriginalRoutingKey(msg)).info('Ignoring');
+    } else {
+      const forecast = envelope.data as CarbonForecastData;
+      if (forecast.horizon === CONFIG.horizon) {
+        await recommend(forecast);
+      }
+    }
+
+    channel.ack(msg);
+  } catch (error) {
+    const outcome = await handleFailure(channel, msg, QUEUES.GREEN_WINDOW, error);
+    log.error(`Failed to process forecast (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+async function shutdown(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  log.info('Shutting down...');
+
+  await consumer.stop();
+  publisher.stop();
+
+  await shutdownTracing();
+
+  const manager = getConnectionManager();
+  await manager.close();
+
+  log.info('Shutdown complete');
+  process.exit(0);
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  log.info('Starting Green Window Recommender...');
+  log.info(`Best ${CONFIG.count} window(s) of ${CONFIG.windowHours}h from the ${CONFIG.horizon} forecast`);
+
+  // Register shutdown handlers
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startHttpServer(CONFIG.httpPort, 'GreenWindow');
+  initTracing(MESSAGE_SOURCES.GREEN_WINDOW);
+
+  await publisher.start();
+  await consumer.start();
+
+  log.info(`Listening on queue: ${QUEUES.GREEN_WINDOW} (prefetch=1)`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
+}
+
+main().catch((error) => {
+  log.error('Fatal error', { error });
+  process.exit(1);
+});
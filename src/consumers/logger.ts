@@ -1,23 +1,57 @@
 import 'dotenv/config';
 import { ConsumeMessage } from 'amqplib';
 import { getConnectionManager, Channel } from '../lib/connection';
-import { setupTopology, QUEUES } from '../lib/topology';
+import { QUEUES } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { Deduplicator, createIdStore } from '../lib/idempotency';
+import { parseEnvelope } from '../lib/validation';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
 import {
   MessageEnvelope,
   CarbonIntensityData,
   CarbonGenerationData,
+  CarbonForecastData,
+  RegionalCarbonIntensityData,
   WeatherCurrentData,
+  WeatherForecastData,
+  CarbonSummaryData,
+  GreenWindowData,
+  CorrelationData,
   MESSAGE_TYPES,
+  MESSAGE_SOURCES,
+  isBackfill,
 } from '../lib/messages';
 
+const log = createLogger('Logger');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.LOGGER_HTTP_PORT || '9103', 10),
+};
+
 // ============================================================================
 // State
 // ============================================================================
 
-let channel: Channel | null = null;
-let consumerTag: string | null = null;
 let isShuttingDown = false;
 
+const deduplicator = new Deduplicator(createIdStore('logger'));
+
+// Process up to 10 messages concurrently
+const consumer = new Consumer({
+  queue: QUEUES.ALL,
+  prefetch: 10,
+  handler: handleMessage,
+  logPrefix: 'Logger',
+});
+
 // ============================================================================
 // Message Formatting
 // ============================================================================
@@ -37,10 +71,50 @@ function formatMessageSummary(envelope: MessageEnvelope): string {
         .join(', ');
       return `Generation: ${topSources}`;
     }
+    case MESSAGE_TYPES.CARBON_FORECAST: {
+      const data = envelope.data as CarbonForecastData;
+      if (data.periods.length === 0) {
+        return `Forecast (${data.horizon}): no periods`;
+      }
+      const lowest = Math.min(...data.periods.map((p) => p.forecast));
+      return `Forecast (${data.horizon}): ${data.periods.length} periods, lowest ${lowest} gCO2/kWh`;
+    }
+    case MESSAGE_TYPES.CARBON_REGIONAL: {
+      const data = envelope.data as RegionalCarbonIntensityData;
+      return `Region ${data.regionId} (${data.shortName}): ${data.forecast} gCO2/kWh (${data.index})`;
+    }
     case MESSAGE_TYPES.WEATHER_CURRENT: {
       const data = envelope.data as WeatherCurrentData;
       return `${data.location.city}: ${data.temperature.current}°C, ${data.condition.description}`;
     }
+    case MESSAGE_TYPES.WEATHER_FORECAST: {
+      const data = envelope.data as WeatherForecastData;
+      const next = data.entries[0];
+      const temperatures = data.entries.map((e) => e.temperature);
+      const range = `${Math.min(...temperatures)}°C to ${Math.max(...temperatures)}°C`;
+      return next
+        ? `${data.location.city} forecast: ${data.entries.length} entries, ${range}; next ${next.timestamp}: ${next.temperature}°C, ${next.condition.description}`
+        : `${data.location.city} forecast: no entries`;
+    }
+    case MESSAGE_TYPES.CARBON_SUMMARY: {
+      const data = envelope.data as CarbonSummaryData;
+      const windows = data.windows
+        .map((w) => `${w.window} ${w.intensity.averageForecast ?? '-'} gCO2/kWh, ${w.generation.renewablePercentage ?? '-'}% renewable`)
+        .join(' | ');
+      return `Summary: ${windows}`;
+    }
+    case MESSAGE_TYPES.CARBON_GREEN_WINDOW: {
+      const data = envelope.data as GreenWindowData;
+      const best = data.windows[0];
+      return best
+        ? `Green window (${data.windowHours}h): ${best.start} → ${best.end}, ${best.averageForecast} gCO2/kWh (horizon avg ${data.horizonAverage ?? '-'})`
+        : `Green window (${data.windowHours}h): none in ${data.horizon} forecast`;
+    }
+    case MESSAGE_TYPES.CORRELATION: {
+      const data = envelope.data as CorrelationData;
+      const { windSpeedVsWindShare, temperatureVsIntensity } = data.correlation;
+      return `Correlation ${data.periodStart}: wind r=${windSpeedVsWindShare.coefficient ?? '-'} (${windSpeedVsWindShare.samples}), temperature r=${temperatureVsIntensity.coefficient ?? '-'} (${temperatureVsIntensity.samples})`;
+    }
     default:
       return `Unknown message type: ${envelope.type}`;
   }
@@ -50,24 +124,34 @@ function formatMessageSummary(envelope: MessageEnvelope): string {
 // Message Handler
 // ============================================================================
 
-function handleMessage(msg: ConsumeMessage | null): void {
-  if (!msg || !channel) return;
-
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
   try {
-    const envelope = JSON.parse(msg.content.toString()) as MessageEnvelope;
-    const routingKey = msg.fields.routingKey;
+    const envelope = parseEnvelope(msg.content);
+    const messageLog = log.forMessage(envelope, getOriginalRoutingKey(msg));
     const receivedAt = new Date().toISOString();
 
-    // Log the message
-    console.log(`[Logger] ${receivedAt} | ${routingKey} | ${envelope.id}`);
-    console.log(`         ${formatMessageSummary(envelope)}`);
+    // Log the message, skipping redeliveries of one already logged
+    const processed = await deduplicator.process(envelope.id, () => {
+      messageLog.info(formatMessageSummary(envelope), {
+        receivedAt,
+        backfill: isBackfill(msg.properties.headers) || undefined,
+      });
+    });
 
-    // Acknowledge the message
+    if (!processed) {
+      messageLog.info('Skipping duplicate');
+    }
+
+    // Acknowledge the message (duplicates too, so they leave the queue)
     channel.ack(msg);
   } catch (error) {
-    console.error('[Logger] Failed to process message:', (error as Error).message);
-    // Reject without requeue on parse errors (message is malformed)
-    channel.nack(msg, false, false);
+    // Invalid messages are permanent failures and go straight to the DLQ; others are retried
+    const outcome = await handleFailure(channel, msg, QUEUES.ALL, error);
+    log.error(`Failed to process message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
   }
 }
 
@@ -79,22 +163,20 @@ async function shutdown(): Promise<void> {
   if (isShuttingDown) return;
   isShuttingDown = true;
 
-  console.log('\n[Logger] Shutting down...');
+  log.info('Shutting down...');
 
   // Cancel consumer first
-  if (channel && consumerTag) {
-    try {
-      await channel.cancel(consumerTag);
-      console.log('[Logger] Consumer cancelled');
-    } catch {
-      // Ignore errors during shutdown
-    }
-  }
+  await consumer.stop();
+
+  const stats = deduplicator.getStats();
+  log.info(`Duplicates skipped: ${stats.hits}, processed: ${stats.misses}`);
+
+  await shutdownTracing();
 
   const manager = getConnectionManager();
   await manager.close();
 
-  console.log('[Logger] Shutdown complete');
+  log.info('Shutdown complete');
   process.exit(0);
 }
 
@@ -103,31 +185,24 @@ async function shutdown(): Promise<void> {
 // ============================================================================
 
 async function main(): Promise<void> {
-  console.log('[Logger] Starting Logger Consumer...');
+  log.info('Starting Logger Consumer...');
 
   // Register shutdown handlers
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
-  // Connect to RabbitMQ
-  const manager = getConnectionManager();
-  channel = await manager.getChannel();
-
-  // Ensure topology exists
-  await setupTopology(channel);
-
-  // Set prefetch (process up to 10 messages concurrently)
-  await channel.prefetch(10);
+  startHttpServer(CONFIG.httpPort, 'Logger');
+  initTracing(MESSAGE_SOURCES.LOGGER);
 
-  // Start consuming from feeds.all queue
-  const { consumerTag: tag } = await channel.consume(QUEUES.ALL, handleMessage);
-  consumerTag = tag;
+  // Connect, ensure topology exists and start consuming from feeds.all queue.
+  // The consumer resubscribes by itself after a broker restart.
+  await consumer.start();
 
-  console.log(`[Logger] Listening on queue: ${QUEUES.ALL}`);
-  console.log('[Logger] Waiting for messages... (Ctrl+C to exit)');
+  log.info(`Listening on queue: ${QUEUES.ALL}`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
 }
 
 main().catch((error) => {
-  console.error('[Logger] Fatal error:', error.message);
+  log.error('Fatal error', { error });
   process.exit(1);
 });
@@ -0,0 +1,143 @@
+import 'dotenv/config';
+import { ConsumeMessage } from 'amqplib';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { QUEUES } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { parseEnvelope } from '../lib/validation';
+import { TimeSeriesStore } from '../lib/timeseries';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+import {
+  CarbonIntensityData,
+  CarbonGenerationData,
+  WeatherCurrentData,
+  WeatherForecastData,
+  MESSAGE_TYPES,
+  MESSAGE_SOURCES,
+} from '../lib/messages';
+
+const log = createLogger('Persistence');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  dbPath: process.env.PERSISTENCE_DB_PATH || './data/feeds.db',
+  prefetch: parseInt(process.env.PERSISTENCE_PREFETCH || '10', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.PERSISTENCE_HTTP_PORT || '9105', 10),
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+let isShuttingDown = false;
+
+// Writes are upserts by natural key, so redeliveries need no deduplicator
+const store = new TimeSeriesStore(CONFIG.dbPath);
+
+// A single instance owns the database file
+const consumer = new Consumer({
+  queue: QUEUES.PERSISTENCE,
+  prefetch: CONFIG.prefetch,
+  handler: handleMessage,
+  logPrefix: 'Persistence',
+});
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
+    const messageLog = log.forMessage(envelope, getOriginalRoutingKey(msg));
+
+    switch (envelope.type) {
+      case MESSAGE_TYPES.CARBON_INTENSITY:
+        store.saveIntensity(envelope.id, envelope.data as CarbonIntensityData);
+        break;
+      case MESSAGE_TYPES.CARBON_GENERATION:
+        store.saveGeneration(envelope.id, envelope.data as CarbonGenerationData);
+        break;
+      case MESSAGE_TYPES.WEATHER_CURRENT:
+        store.saveObservation(envelope.id, envelope.data as WeatherCurrentData);
+        break;
+      case MESSAGE_TYPES.WEATHER_FORECAST:
+        store.saveForecast(envelope.id, envelope.data as WeatherForecastData);
+        break;
+      default:
+        messageLog.info('Ignoring');
+    }
+
+    // The write has committed by now; only then may the broker forget the message
+    channel.ack(msg);
+    messageLog.info('Stored');
+  } catch (error) {
+    // Database errors such as a locked file are retried; invalid messages are dead-lettered
+    const outcome = await handleFailure(channel, msg, QUEUES.PERSISTENCE, error);
+    log.error(`Failed to store message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+async function shutdown(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  log.info('Shutting down...');
+
+  await consumer.stop();
+
+  const counts = store.getWriteCounts();
+  log.info(
+    `Rows written: ${counts.intensity} intensity, ${counts.generation} generation, ` +
+      `${counts.observations} observations, ${counts.forecasts} forecast entries`
+  );
+  store.close();
+
+  await shutdownTracing();
+
+  const manager = getConnectionManager();
+  await manager.close();
+
+  log.info('Shutdown complete');
+  process.exit(0);
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  log.info('Starting Persistence Consumer...');
+  log.info(`Database: ${CONFIG.dbPath}`);
+
+  // Register shutdown handlers
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startHttpServer(CONFIG.httpPort, 'Persistence');
+  initTracing(MESSAGE_SOURCES.PERSISTENCE);
+
+  await consumer.start();
+
+  log.info(`Listening on queue: ${QUEUES.PERSISTENCE} (prefetch=${CONFIG.prefetch})`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
+}
+
+main().catch((error) => {
+  log.error('Fatal error', { error });
+  process.exit(1);
+});
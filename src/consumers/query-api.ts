@@ -0,0 +1,203 @@
+import 'dotenv/config';
+import { ConsumeMessage } from 'amqplib';
+import { Server } from 'http';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { QUEUES } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { parseEnvelope } from '../lib/validation';
+import { ReadingStore } from '../lib/readings';
+import { createQueryServer } from '../lib/query-api';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+import { MESSAGE_SOURCES } from '../lib/messages';
+
+const log = createLogger('QueryApi');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  port: parseInt(process.env.QUERY_API_PORT || '8080', 10),
+  statePath: process.env.QUERY_API_STATE_PATH || './data/query-api/readings.json',
+  retention: parseInt(process.env.QUERY_API_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000), 10),
+  // Longest a stored reading waits unacked for the next snapshot
+  snapshotInterval: parseInt(process.env.QUERY_API_SNAPSHOT_INTERVAL_MS || '5000', 10),
+  prefetch: parseInt(process.env.QUERY_API_PREFETCH || '50', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.QUERY_API_HTTP_PORT || '9110', 10),
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+let isShuttingDown = false;
+let snapshotTimer: NodeJS.Timeout | null = null;
+let server: Server | null = null;
+
+// Stored readings are acked only once they are in the snapshot
+let unsaved: { msg: ConsumeMessage; channel: Channel }[] = [];
+
+// Readings are keyed by their own time, so redeliveries need no deduplicator
+const store = new ReadingStore({
+  retention: CONFIG.retention,
+  statePath: CONFIG.statePath,
+});
+
+// feeds.query-api allows a single active consumer: competing instances would each hold part of the readings
+const consumer = new Consumer({
+  queue: QUEUES.QUERY_API,
+  prefetch: CONFIG.prefetch,
+  handler: handleMessage,
+  onActive: reloadStore,
+  logPrefix: 'QueryApi',
+});
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
+    const routingKey = getOriginalRoutingKey(msg);
+
+    // Derived, alert and health messages are not served
+    if (!store.record(envelope)) {
+      channel.ack(msg);
+      return;
+    }
+
+    log.forMessage(envelope, routingKey).debug('Stored');
+    unsaved.push({ msg, channel });
+
+    // A full prefetch window receives nothing more until it is acked
+    if (unsaved.length >= CONFIG.prefetch) {
+      saveSnapshot();
+    } else if (!snapshotTimer) {
+      snapshotTimer = setTimeout(saveSnapshot, CONFIG.snapshotInterval);
+    }
+  } catch (error) {
+    const outcome = await handleFailure(channel, msg, QUEUES.QUERY_API, error);
+    log.error(`Failed to store message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+/**
+ * Drops expired readings, snapshots the store and acks the readings now in
+ * it. If the snapshot fails they stay unacked and are saved on the next try.
+ */
+function saveSnapshot(): void {
+  if (snapshotTimer) {
+    clearTimeout(snapshotTimer);
+    snapshotTimer = null;
+  }
+  if (unsaved.length === 0) return;
+
+  store.prune();
+  try {
+    store.save();
+  } catch (error) {
+    log.error(`Failed to save snapshot, ${unsaved.length} reading(s) left unacked`, { error });
+    snapshotTimer = setTimeout(saveSnapshot, CONFIG.snapshotInterval);
+    return;
+  }
+
+  const saved = unsaved;
+  unsaved = [];
+  for (const { msg, channel } of saved) {
+    try {
+      channel.ack(msg);
+    } catch {
+      // The channel closed meanwhile; the broker redelivers the reading
+    }
+  }
+}
+
+/**
+ * Runs when this instance becomes the active consumer. It may be taking over
+ * from another instance, so it merges that instance's snapshot first.
+ */
+function reloadStore(): void {
+  store.reload();
+  const held = store.size;
+  log.info(`Reloaded ${held.intensity} intensity, ${held.generation} generation, ${held.regional} regional reading(s)`);
+}
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+async function shutdown(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  log.info('Shutting down...');
+
+  // Ack what arrived before the channel closes; later deliveries are redelivered
+  saveSnapshot();
+  await consumer.stop();
+
+  if (server) {
+    await new Promise<void>((resolve) => server?.close(() => resolve()));
+    server = null;
+  }
+
+  await shutdownTracing();
+
+  const manager = getConnectionManager();
+  await manager.close();
+
+  log.info('Shutdown complete');
+  process.exit(0);
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  log.info('Starting Query API...');
+
+  // Register shutdown handlers
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startHttpServer(CONFIG.httpPort, 'QueryApi');
+  initTracing(MESSAGE_SOURCES.QUERY_API);
+
+  const held = store.size;
+  log.info(
+    `Loaded ${held.intensity} intensity, ${held.generation} generation, ${held.regional} regional, ` +
+      `${held.weather} weather reading(s) and ${held.forecasts} forecast(s) from ${CONFIG.statePath}`
+  );
+
+  // Serve the snapshot right away; the queue then catches up on what was missed
+  const api = createQueryServer(store, (error) => log.error('Request failed', { error }));
+  await new Promise<void>((resolve, reject) => {
+    api.once('error', reject);
+    api.listen(CONFIG.port, () => {
+      api.off('error', reject);
+      resolve();
+    });
+  });
+  server = api;
+  log.info(`Serving on http://localhost:${CONFIG.port}`);
+
+  await consumer.start();
+
+  log.info(`Listening on queue: ${QUEUES.QUERY_API} (single active consumer, prefetch=${CONFIG.prefetch})`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
+}
+
+main().catch((error) => {
+  log.error('Fatal error', { error });
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+import 'dotenv/config';
+import { ConsumeMessage } from 'amqplib';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { QUEUES } from '../lib/topology';
+import { Consumer } from '../lib/consumer';
+import { Publisher } from '../lib/publisher';
+import { handleFailure, describeFailureOutcome, getOriginalRoutingKey } from '../lib/retry';
+import { parseEnvelope } from '../lib/validation';
+import { FeedWatchdog, parseFeedCadences } from '../lib/watchdog';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+import {
+  FeedHealthData,
+  MESSAGE_SOURCES,
+  createFeedHealthMessage,
+  isBackfill,
+} from '../lib/messages';
+
+const log = createLogger('Watchdog');
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  cadences: parseFeedCadences(process.env.WATCHDOG_CADENCES || ''),
+  staleFactor: parseFloat(process.env.WATCHDOG_STALE_FACTOR || '2'),
+  checkInterval: parseInt(process.env.WATCHDOG_CHECK_INTERVAL_MS || '60000', 10),
+  statePath: process.env.WATCHDOG_STATE_PATH || './data/watchdog/state.json',
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.WATCHDOG_HTTP_PORT || '9109', 10),
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+let isShuttingDown = false;
+let checkTimer: NodeJS.Timeout | null = null;
+
+const watchdog = new FeedWatchdog({
+  cadences: CONFIG.cadences,
+  staleFactor: CONFIG.staleFactor,
+  statePath: CONFIG.statePath,
+});
+
+const publisher = new Publisher({
+  source: MESSAGE_SOURCES.WATCHDOG,
+  logPrefix: 'Watchdog',
+});
+
+// feeds.watchdog allows a single active consumer, which owns the stale/recovered state
+const consumer = new Consumer({
+  queue: QUEUES.WATCHDOG,
+  prefetch: 50,
+  handler: handleMessage,
+  logPrefix: 'Watchdog',
+});
+
+// ============================================================================
+// Health Events
+// ============================================================================
+
+async function publishHealth(data: FeedHealthData): Promise<void> {
+  const message = createFeedHealthMessage(data);
+  await publisher.publish(message, message.type);
+
+  if (data.status === 'stale') {
+    log.warn(
+      `${data.feed} is stale: nothing for ${data.silentFor}ms ` +
+        `(expected every ${data.expectedInterval}ms, last ${data.lastSeenAt ?? 'never'})`
+    );
+  } else {
+    log.info(`${data.feed} recovered after ${data.silentFor}ms`);
+  }
+}
+
+async function checkFeeds(): Promise<void> {
+  const events = watchdog.check();
+  for (const event of events) {
+    await publishHealth(event);
+  }
+  watchdog.save();
+}
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+async function handleMessage(msg: ConsumeMessage, channel: Channel): Promise<void> {
+  try {
+    const envelope = parseEnvelope(msg.content);
+
+    // Backfilled history is freshly stamped but says nothing about the live feed
+    if (!isBackfill(msg.properties.headers)) {
+      const recovered = watchdog.observe(envelope);
+      if (recovered) {
+        await publishHealth(recovered);
+        watchdog.save();
+      }
+    }
+
+    channel.ack(msg);
+  } catch (error) {
+    const outcome = await handleFailure(channel, msg, QUEUES.WATCHDOG, error);
+    log.error(`Failed to process message (${describeFailureOutcome(outcome)})`, {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    });
+  }
+}
+
+// ============================================================================
+// Graceful Shutdown
+// ============================================================================
+
+async function shutdown(): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  log.info('Shutting down...');
+
+  if (checkTimer) {
+    clearInterval(checkTimer);
+    checkTimer = null;
+  }
+
+  await consumer.stop();
+  publisher.stop();
+  watchdog.save();
+
+  const stale = watchdog.staleFeeds;
+  log.info(`Stale feeds: ${stale.length > 0 ? stale.join(', ') : 'none'}`);
+
+  await shutdownTracing();
+
+  const manager = getConnectionManager();
+  await manager.close();
+
+  log.info('Shutdown complete');
+  process.exit(0);
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  log.info('Starting Feed Watchdog...');
+  for (const [feed, interval] of Object.entries(CONFIG.cadences)) {
+    log.info(`${feed}: stale after ${interval * CONFIG.staleFactor}ms`);
+  }
+
+  // Register shutdown handlers
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startHttpServer(CONFIG.httpPort, 'Watchdog');
+  initTracing(MESSAGE_SOURCES.WATCHDOG);
+
+  await publisher.start();
+  await consumer.start();
+
+  checkTimer = setInterval(() => {
+    checkFeeds().catch((error) => {
+      log.error('Feed check failed', { error });
+    });
+  }, CONFIG.checkInterval);
+
+  log.info(`Listening on queue: ${QUEUES.WATCHDOG} (single active consumer, prefetch=50)`);
+  log.info('Waiting for messages... (Ctrl+C to exit)');
+}
+
+main().catch((error) => {
+  log.error('Fatal error', { error });
+  process.exit(1);
+});
@@ -1,247 +1,235 @@
 import 'dotenv/config';
-import { getConnectionManager, Channel } from '../lib/connection';
-import { setupTopology, EXCHANGES, ROUTING_KEYS } from '../lib/topology';
+import { getConnectionManager } from '../lib/connection';
+import { ROUTING_KEYS, regionalRoutingKey } from '../lib/topology';
+import { getPostcodeAreas } from '../lib/regions';
+import { Ingester, fetchJson } from '../lib/ingester';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
+import {
+  CARBON_API_BASE_URL,
+  IntensityApiResponse,
+  GenerationApiResponse,
+  RegionalApiResponse,
+  toIntensityData,
+  toGenerationMix,
+  formatApiTime,
+} from '../lib/carbon-api';
 import {
   CarbonIntensityData,
   CarbonGenerationData,
+  CarbonForecastData,
+  CarbonForecastHorizon,
+  RegionalCarbonIntensityData,
   CarbonIntensityIndex,
-  FuelType,
-  MessageEnvelope,
+  GenerationMixEntry,
   MESSAGE_SOURCES,
   createCarbonIntensityMessage,
   createCarbonGenerationMessage,
+  createCarbonForecastMessage,
+  createRegionalCarbonIntensityMessage,
+  CARBON_FORECAST_HORIZONS,
 } from '../lib/messages';
 
+const log = createLogger('Carbon');
+
 // ============================================================================
 // Configuration
 // ============================================================================
 
+function parseForecastHorizons(value: string): CarbonForecastHorizon[] {
+  const horizons = value.split(',').map((h) => h.trim()).filter((h) => h.length > 0);
+  for (const horizon of horizons) {
+    if (!(CARBON_FORECAST_HORIZONS as readonly string[]).includes(horizon)) {
+      throw new Error(`Unknown forecast horizon "${horizon}" (expected ${CARBON_FORECAST_HORIZONS.join(', ')})`);
+    }
+  }
+  return horizons as CarbonForecastHorizon[];
+}
+
 const CONFIG = {
-  baseUrl: 'https://api.carbonintensity.org.uk',
+  baseUrl: CARBON_API_BASE_URL,
   intensityPollInterval: parseInt(process.env.CARBON_INTENSITY_POLL_INTERVAL_MS || '120000', 10),
   generationPollInterval: parseInt(process.env.CARBON_GENERATION_POLL_INTERVAL_MS || '300000', 10),
+  regionalPollInterval: parseInt(process.env.CARBON_REGIONAL_POLL_INTERVAL_MS || '300000', 10),
+  forecastPollInterval: parseInt(process.env.CARBON_FORECAST_POLL_INTERVAL_MS || '1800000', 10),
+  forecastHorizons: parseForecastHorizons(process.env.CARBON_FORECAST_HORIZONS || 'fw24h,fw48h'),
   baseRetryDelay: 5000,
   maxRetryDelay: 300000,
+  rateLimitDelay: 60000,
+  // Unchanged readings are republished this often (0 = never)
+  heartbeatInterval: parseInt(process.env.CARBON_HEARTBEAT_INTERVAL_MS || '3600000', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.CARBON_HTTP_PORT || '9101', 10),
 };
 
-// ============================================================================
-// API Response Types
-// ============================================================================
-
-interface IntensityApiResponse {
-  data: Array<{
-    from: string;
-    to: string;
-    intensity: {
-      forecast: number;
-      actual: number | null;
-      index: string;
-    };
-  }>;
-}
-
-interface GenerationApiResponse {
-  data: {
-    generationmix: Array<{
-      fuel: string;
-      perc: number;
-    }>;
-  };
-}
-
-// ============================================================================
-// State
-// ============================================================================
-
-let channel: Channel | null = null;
-let intensityFailures = 0;
-let generationFailures = 0;
-let intensityTimer: NodeJS.Timeout | null = null;
-let generationTimer: NodeJS.Timeout | null = null;
-let isShuttingDown = false;
-
 // ============================================================================
 // HTTP Client
 // ============================================================================
 
 async function fetchIntensity(): Promise<CarbonIntensityData> {
   const url = `${CONFIG.baseUrl}/intensity`;
-  console.log(`[Carbon] Fetching intensity from ${url}`);
-
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-  }
+  log.debug(`Fetching intensity from ${url}`);
 
-  const json = (await response.json()) as IntensityApiResponse;
-  const entry = json.data[0];
-
-  return {
-    periodStart: entry.from,
-    periodEnd: entry.to,
-    forecast: entry.intensity.forecast,
-    actual: entry.intensity.actual,
-    index: entry.intensity.index as CarbonIntensityIndex,
-  };
+  const json = await fetchJson<IntensityApiResponse>(url);
+  return toIntensityData(json.data[0]);
 }
 
 async function fetchGeneration(): Promise<CarbonGenerationData> {
   const url = `${CONFIG.baseUrl}/generation`;
-  console.log(`[Carbon] Fetching generation from ${url}`);
-
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-  }
+  log.debug(`Fetching generation from ${url}`);
 
-  const json = (await response.json()) as GenerationApiResponse;
+  const json = await fetchJson<GenerationApiResponse>(url);
 
   return {
+    periodStart: json.data.from,
     timestamp: new Date().toISOString(),
-    mix: json.data.generationmix.map((entry) => ({
-      fuel: entry.fuel as FuelType,
-      percentage: entry.perc,
-    })),
+    mix: toGenerationMix(json.data.generationmix),
   };
 }
 
-// ============================================================================
-// Message Publishing
-// ============================================================================
-
-async function publishMessage(
-  message: MessageEnvelope,
-  routingKey: string
-): Promise<void> {
-  if (!channel) {
-    throw new Error('Channel not available');
-  }
-
-  const content = Buffer.from(JSON.stringify(message));
-
-  channel.publish(EXCHANGES.TOPIC, routingKey, content, {
-    contentType: 'application/json',
-    contentEncoding: 'utf-8',
-    deliveryMode: 2, // persistent
-    messageId: message.id,
-    timestamp: Math.floor(Date.now() / 1000),
-    appId: MESSAGE_SOURCES.CARBON_INGESTER,
-  });
-
-  console.log(`[Carbon] Published message ${message.id} to ${routingKey}`);
+async function fetchRegional(): Promise<RegionalCarbonIntensityData[]> {
+  const url = `${CONFIG.baseUrl}/regional`;
+  log.debug(`Fetching regional intensity from ${url}`);
+
+  const json = await fetchJson<RegionalApiResponse>(url);
+  const period = json.data[0];
+
+  return period.regions.map((region) => ({
+    regionId: region.regionid,
+    dnoRegion: region.dnoregion,
+    shortName: region.shortname,
+    postcodeAreas: getPostcodeAreas(region.regionid),
+    periodStart: period.from,
+    periodEnd: period.to,
+    forecast: region.intensity.forecast,
+    index: region.intensity.index as CarbonIntensityIndex,
+    mix: toGenerationMix(region.generationmix),
+  }));
 }
 
-// ============================================================================
-// Exponential Backoff
-// ============================================================================
+async function fetchForecast(horizon: CarbonForecastHorizon): Promise<CarbonForecastData> {
+  const from = formatApiTime(new Date());
+  const url = `${CONFIG.baseUrl}/intensity/${from}/${horizon}`;
+  log.debug(`Fetching ${horizon} forecast from ${url}`);
 
-function calculateBackoff(failures: number): number {
-  const delay = CONFIG.baseRetryDelay * Math.pow(2, failures);
-  return Math.min(delay, CONFIG.maxRetryDelay);
-}
+  const json = await fetchJson<IntensityApiResponse>(url);
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  return {
+    horizon,
+    fetchedAt: new Date().toISOString(),
+    periods: json.data.map((entry) => ({
+      periodStart: entry.from,
+      periodEnd: entry.to,
+      forecast: entry.intensity.forecast,
+      index: entry.intensity.index as CarbonIntensityIndex,
+    })),
+  };
 }
 
 // ============================================================================
-// Polling Functions
+// Sources
 // ============================================================================
 
-async function pollIntensity(): Promise<void> {
-  if (isShuttingDown) return;
-
-  try {
-    const data = await fetchIntensity();
-    const message = createCarbonIntensityMessage(data);
-    await publishMessage(message, ROUTING_KEYS.CARBON_INTENSITY);
-
-    console.log(
-      `[Carbon] Intensity: ${data.forecast} gCO2/kWh (${data.index}), actual: ${data.actual ?? 'pending'}`
-    );
-
-    intensityFailures = 0;
-  } catch (error) {
-    intensityFailures++;
-    const backoff = calculateBackoff(intensityFailures);
-    console.error(
-      `[Carbon] Intensity fetch failed (attempt ${intensityFailures}):`,
-      (error as Error).message
-    );
-    console.log(`[Carbon] Next intensity retry in ${backoff}ms`);
-
-    await sleep(backoff);
-    if (!isShuttingDown) {
-      pollIntensity();
-    }
-    return;
-  }
+const ingester = new Ingester({
+  source: MESSAGE_SOURCES.CARBON_INGESTER,
+  logPrefix: 'Carbon',
+  backoff: { baseDelay: CONFIG.baseRetryDelay, maxDelay: CONFIG.maxRetryDelay },
+  rateLimitDelay: CONFIG.rateLimitDelay,
+  heartbeatInterval: CONFIG.heartbeatInterval,
+});
 
-  if (!isShuttingDown) {
-    intensityTimer = setTimeout(pollIntensity, CONFIG.intensityPollInterval);
-  }
+function mixFingerprint(mix: GenerationMixEntry[]): string {
+  return mix.map((m) => `${m.fuel}:${m.percentage}`).join(',');
 }
 
-async function pollGeneration(): Promise<void> {
-  if (isShuttingDown) return;
-
-  try {
-    const data = await fetchGeneration();
-    const message = createCarbonGenerationMessage(data);
-    await publishMessage(message, ROUTING_KEYS.CARBON_GENERATION);
+ingester.addSource({
+  name: 'intensity',
+  interval: CONFIG.intensityPollInterval,
+  fetch: async () => [await fetchIntensity()],
+  createMessage: createCarbonIntensityMessage,
+  routingKey: ROUTING_KEYS.CARBON_INTENSITY,
+  // The API updates each half hour; actual is part of the fingerprint so a
+  // period is published again once its actual value arrives
+  fingerprint: (data) => `${data.periodStart}|${data.forecast}|${data.actual}|${data.index}`,
+  summarize: ([data]) =>
+    `Intensity: ${data.forecast} gCO2/kWh (${data.index}), actual: ${data.actual ?? 'pending'}`,
+});
 
-    const topSources = data.mix
+ingester.addSource({
+  name: 'generation',
+  interval: CONFIG.generationPollInterval,
+  fetch: async () => [await fetchGeneration()],
+  createMessage: createCarbonGenerationMessage,
+  routingKey: ROUTING_KEYS.CARBON_GENERATION,
+  // A new period is a new reading even if the mix happens to match
+  fingerprint: (data) => `${data.periodStart}|${mixFingerprint(data.mix)}`,
+  summarize: ([data]) => {
+    const topSources = [...data.mix]
       .sort((a, b) => b.percentage - a.percentage)
       .slice(0, 3)
       .map((s) => `${s.fuel}: ${s.percentage.toFixed(1)}%`)
       .join(', ');
-    console.log(`[Carbon] Generation mix - Top 3: ${topSources}`);
-
-    generationFailures = 0;
-  } catch (error) {
-    generationFailures++;
-    const backoff = calculateBackoff(generationFailures);
-    console.error(
-      `[Carbon] Generation fetch failed (attempt ${generationFailures}):`,
-      (error as Error).message
-    );
-    console.log(`[Carbon] Next generation retry in ${backoff}ms`);
-
-    await sleep(backoff);
-    if (!isShuttingDown) {
-      pollGeneration();
-    }
-    return;
-  }
+    return `Generation mix - Top 3: ${topSources}`;
+  },
+});
 
-  if (!isShuttingDown) {
-    generationTimer = setTimeout(pollGeneration, CONFIG.generationPollInterval);
-  }
+ingester.addSource({
+  name: 'regional',
+  interval: CONFIG.regionalPollInterval,
+  fetch: fetchRegional,
+  createMessage: createRegionalCarbonIntensityMessage,
+  routingKey: (data) => regionalRoutingKey(data.regionId),
+  fingerprint: (data) => `${data.periodStart}|${data.forecast}|${data.index}|${mixFingerprint(data.mix)}`,
+  summarize: (regions) => {
+    const cleanest = regions.reduce((min, r) => (r.forecast < min.forecast ? r : min));
+    return `Regional intensity: ${regions.length} regions, cleanest ${cleanest.shortName} at ${cleanest.forecast} gCO2/kWh`;
+  },
+});
+
+// One source per horizon so each backs off on its own
+for (const horizon of CONFIG.forecastHorizons) {
+  ingester.addSource({
+    name: `forecast ${horizon}`,
+    interval: CONFIG.forecastPollInterval,
+    fetch: async () => [await fetchForecast(horizon)],
+    createMessage: createCarbonForecastMessage,
+    routingKey: ROUTING_KEYS.CARBON_FORECAST,
+    fingerprint: (data) => data.periods.map((p) => `${p.periodStart}:${p.forecast}:${p.index}`).join('|'),
+    summarize: ([data]) => {
+      const lowest = data.periods.reduce(
+        (min, p) => (p.forecast < min.forecast ? p : min),
+        data.periods[0]
+      );
+      return (
+        `${horizon} forecast: ${data.periods.length} periods` +
+        (lowest ? `, lowest ${lowest.forecast} gCO2/kWh at ${lowest.periodStart}` : '')
+      );
+    },
+  });
 }
 
 // ============================================================================
 // Graceful Shutdown
 // ============================================================================
 
+let isShuttingDown = false;
+
 async function shutdown(): Promise<void> {
   if (isShuttingDown) return;
   isShuttingDown = true;
 
-  console.log('\n[Carbon] Shutting down...');
+  log.info('Shutting down...');
 
-  if (intensityTimer) {
-    clearTimeout(intensityTimer);
-    intensityTimer = null;
-  }
-  if (generationTimer) {
-    clearTimeout(generationTimer);
-    generationTimer = null;
-  }
+  ingester.stop();
+  ingester.logMetrics();
+
+  await shutdownTracing();
 
   const manager = getConnectionManager();
   await manager.close();
 
-  console.log('[Carbon] Shutdown complete');
+  log.info('Shutdown complete');
   process.exit(0);
 }
 
@@ -250,29 +238,29 @@ async function shutdown(): Promise<void> {
 // ============================================================================
 
 async function main(): Promise<void> {
-  console.log('[Carbon] Starting Carbon Intensity Ingester...');
-  console.log(`[Carbon] Intensity poll interval: ${CONFIG.intensityPollInterval}ms`);
-  console.log(`[Carbon] Generation poll interval: ${CONFIG.generationPollInterval}ms`);
+  log.info('Starting Carbon Intensity Ingester...');
+  log.info(`Intensity poll interval: ${CONFIG.intensityPollInterval}ms`);
+  log.info(`Generation poll interval: ${CONFIG.generationPollInterval}ms`);
+  log.info(`Regional poll interval: ${CONFIG.regionalPollInterval}ms`);
+  log.info(
+    `Forecast poll interval: ${CONFIG.forecastPollInterval}ms (${CONFIG.forecastHorizons.join(', ')})`
+  );
+  log.info(
+    `Heartbeat interval: ${CONFIG.heartbeatInterval > 0 ? `${CONFIG.heartbeatInterval}ms` : 'disabled'}`
+  );
 
   // Register shutdown handlers
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
-  // Connect to RabbitMQ
-  const manager = getConnectionManager();
-  channel = await manager.getChannel();
-
-  // Ensure topology exists
-  await setupTopology(channel);
-
-  console.log('[Carbon] Connected to RabbitMQ, starting polling...');
+  startHttpServer(CONFIG.httpPort, 'Carbon');
+  initTracing(MESSAGE_SOURCES.CARBON_INGESTER);
 
-  // Start polling immediately
-  pollIntensity();
-  pollGeneration();
+  // Connect, ensure topology, flush the outbox and start polling
+  await ingester.start();
 }
 
 main().catch((error) => {
-  console.error('[Carbon] Fatal error:', error.message);
+  log.error('Fatal error', { error });
   process.exit(1);
 });
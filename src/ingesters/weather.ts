@@ -1,13 +1,24 @@
 import 'dotenv/config';
-import { getConnectionManager, Channel } from '../lib/connection';
-import { setupTopology, EXCHANGES, ROUTING_KEYS } from '../lib/topology';
+import { getConnectionManager } from '../lib/connection';
+import { ROUTING_KEYS, locationRoutingKey } from '../lib/topology';
+import { Ingester, RateLimiter, HttpError, fetchJson } from '../lib/ingester';
+import { LocationConfig, loadWeatherLocations, describeLocation } from '../lib/locations';
+import { startHttpServer } from '../lib/http';
+import { initTracing, shutdownTracing } from '../lib/tracing';
+import { createLogger } from '../lib/logger';
 import {
   WeatherCurrentData,
-  MessageEnvelope,
+  WeatherForecastData,
+  WeatherLocation,
+  Coordinates,
   MESSAGE_SOURCES,
+  createLocationId,
   createWeatherCurrentMessage,
+  createWeatherForecastMessage,
 } from '../lib/messages';
 
+const log = createLogger('Weather');
+
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -15,15 +26,22 @@ import {
 const CONFIG = {
   baseUrl: 'https://api.openweathermap.org/data/2.5',
   apiKey: process.env.OPENWEATHER_API_KEY,
-  city: process.env.WEATHER_CITY || 'London,UK',
+  locations: loadWeatherLocations(),
+  // Shared by current and forecast calls for every location
+  maxCallsPerMinute: parseInt(process.env.WEATHER_MAX_CALLS_PER_MINUTE || '60', 10),
   pollInterval: parseInt(process.env.WEATHER_POLL_INTERVAL_MS || '600000', 10),
+  forecastPollInterval: parseInt(process.env.WEATHER_FORECAST_POLL_INTERVAL_MS || '10800000', 10),
   baseRetryDelay: 10000,
   maxRetryDelay: 600000,
   rateLimitDelay: 60000,
+  // Unchanged readings are republished this often (0 = never)
+  heartbeatInterval: parseInt(process.env.WEATHER_HEARTBEAT_INTERVAL_MS || '3600000', 10),
+  // /metrics, /healthz and /readyz (0 = disabled)
+  httpPort: parseInt(process.env.WEATHER_HTTP_PORT || '9102', 10),
 };
 
 // ============================================================================
-// API Response Type
+// API Response Types
 // ============================================================================
 
 interface WeatherApiResponse {
@@ -52,59 +70,92 @@ interface WeatherApiResponse {
   };
 }
 
-// ============================================================================
-// Custom Error for Rate Limiting
-// ============================================================================
-
-class RateLimitError extends Error {
-  constructor() {
-    super('Rate limit exceeded (429)');
-    this.name = 'RateLimitError';
-  }
+interface ForecastApiResponse {
+  list: Array<{
+    dt: number;
+    main: {
+      temp: number;
+    };
+    weather: Array<{
+      main: string;
+      description: string;
+    }>;
+    clouds: {
+      all: number;
+    };
+    wind: {
+      speed: number;
+      deg: number;
+    };
+  }>;
+  city: {
+    name: string;
+    country: string;
+    coord: {
+      lat: number;
+      lon: number;
+    };
+  };
 }
 
 // ============================================================================
 // State
 // ============================================================================
 
-let channel: Channel | null = null;
-let failures = 0;
-let pollTimer: NodeJS.Timeout | null = null;
-let isShuttingDown = false;
+// First ID resolved for each configured location, so current and forecast
+// messages agree even if the two endpoints name the place differently
+const locationIds = new Map<LocationConfig, string>();
 
 // ============================================================================
 // HTTP Client
 // ============================================================================
 
-async function fetchWeather(): Promise<WeatherCurrentData> {
-  const url = `${CONFIG.baseUrl}/weather?q=${encodeURIComponent(CONFIG.city)}&appid=${CONFIG.apiKey}&units=metric`;
-  console.log(`[Weather] Fetching weather for ${CONFIG.city}`);
-
-  const response = await fetch(url);
+function locationQuery(location: LocationConfig): string {
+  return location.city !== undefined
+    ? `q=${encodeURIComponent(location.city)}`
+    : `lat=${location.lat}&lon=${location.lon}`;
+}
 
-  if (response.status === 429) {
-    throw new RateLimitError();
-  }
+async function fetchWeatherJson<T>(endpoint: string, location: LocationConfig): Promise<T> {
+  const url = `${CONFIG.baseUrl}/${endpoint}?${locationQuery(location)}&appid=${CONFIG.apiKey}&units=metric`;
 
-  if (response.status === 401) {
-    throw new Error('Invalid API key (401)');
+  try {
+    return await fetchJson<T>(url);
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 401) {
+      throw new Error('Invalid API key (401)');
+    }
+    throw error;
   }
+}
 
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+/**
+ * Builds the published location, keeping the ID first resolved for this
+ * configured location (or the one configured explicitly).
+ */
+function resolveLocation(
+  config: LocationConfig,
+  city: string,
+  country: string,
+  coordinates: Coordinates
+): WeatherLocation {
+  let id = config.id ?? locationIds.get(config);
+  if (!id) {
+    id = createLocationId(country, city);
+    locationIds.set(config, id);
   }
+  return { id, city, country, coordinates };
+}
 
-  const json = (await response.json()) as WeatherApiResponse;
+async function fetchWeather(location: LocationConfig): Promise<WeatherCurrentData> {
+  log.debug(`Fetching weather for ${describeLocation(location)}`);
+  const json = await fetchWeatherJson<WeatherApiResponse>('weather', location);
 
   return {
-    location: {
-      city: json.name,
-      country: json.sys.country,
-      coordinates: {
-        lat: json.coord.lat,
-        lon: json.coord.lon,
-      },
-    },
+    location: resolveLocation(location, json.name, json.sys.country, {
+      lat: json.coord.lat,
+      lon: json.coord.lon,
+    }),
     observedAt: new Date(json.dt * 1000).toISOString(),
     temperature: {
       current: json.main.temp,
@@ -123,111 +174,106 @@ async function fetchWeather(): Promise<WeatherCurrentData> {
   };
 }
 
-// ============================================================================
-// Message Publishing
-// ============================================================================
-
-async function publishMessage(
-  message: MessageEnvelope,
-  routingKey: string
-): Promise<void> {
-  if (!channel) {
-    throw new Error('Channel not available');
-  }
+async function fetchForecast(location: LocationConfig): Promise<WeatherForecastData> {
+  log.debug(`Fetching forecast for ${describeLocation(location)}`);
+  const json = await fetchWeatherJson<ForecastApiResponse>('forecast', location);
 
-  const content = Buffer.from(JSON.stringify(message));
-
-  channel.publish(EXCHANGES.TOPIC, routingKey, content, {
-    contentType: 'application/json',
-    contentEncoding: 'utf-8',
-    deliveryMode: 2,
-    messageId: message.id,
-    timestamp: Math.floor(Date.now() / 1000),
-    appId: MESSAGE_SOURCES.WEATHER_INGESTER,
-  });
-
-  console.log(`[Weather] Published message ${message.id} to ${routingKey}`);
+  return {
+    location: resolveLocation(location, json.city.name, json.city.country, {
+      lat: json.city.coord.lat,
+      lon: json.city.coord.lon,
+    }),
+    fetchedAt: new Date().toISOString(),
+    entries: json.list.map((entry) => ({
+      timestamp: new Date(entry.dt * 1000).toISOString(),
+      temperature: entry.main.temp,
+      wind: {
+        speed: entry.wind.speed,
+        direction: entry.wind.deg,
+      },
+      cloudCover: entry.clouds.all,
+      condition: {
+        main: entry.weather[0].main,
+        description: entry.weather[0].description,
+      },
+    })),
+  };
 }
 
 // ============================================================================
-// Exponential Backoff
+// Sources
 // ============================================================================
 
-function calculateBackoff(failureCount: number): number {
-  const delay = CONFIG.baseRetryDelay * Math.pow(2, failureCount);
-  return Math.min(delay, CONFIG.maxRetryDelay);
+/** Calls per minute the configured locations and intervals need on average */
+function estimateCallsPerMinute(): number {
+  const perLocation = 60000 / CONFIG.pollInterval + 60000 / CONFIG.forecastPollInterval;
+  return CONFIG.locations.length * perLocation;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// ============================================================================
-// Polling Function
-// ============================================================================
-
-async function pollWeather(): Promise<void> {
-  if (isShuttingDown) return;
-
-  try {
-    const data = await fetchWeather();
-    const message = createWeatherCurrentMessage(data);
-    await publishMessage(message, ROUTING_KEYS.WEATHER_CURRENT);
-
-    console.log(
-      `[Weather] ${data.location.city}: ${data.temperature.current}°C, ${data.condition.description}`
-    );
-
-    failures = 0;
-  } catch (error) {
-    if (error instanceof RateLimitError) {
-      console.warn(`[Weather] Rate limited, waiting ${CONFIG.rateLimitDelay}ms`);
-      await sleep(CONFIG.rateLimitDelay);
-      if (!isShuttingDown) {
-        pollWeather();
-      }
-      return;
-    }
-
-    failures++;
-    const backoff = calculateBackoff(failures);
-    console.error(
-      `[Weather] Fetch failed (attempt ${failures}):`,
-      (error as Error).message
-    );
-    console.log(`[Weather] Next retry in ${backoff}ms`);
+const ingester = new Ingester({
+  source: MESSAGE_SOURCES.WEATHER_INGESTER,
+  logPrefix: 'Weather',
+  backoff: { baseDelay: CONFIG.baseRetryDelay, maxDelay: CONFIG.maxRetryDelay },
+  rateLimitDelay: CONFIG.rateLimitDelay,
+  heartbeatInterval: CONFIG.heartbeatInterval,
+  // Current and forecast calls for every location share one budget
+  rateLimiter: new RateLimiter(CONFIG.maxCallsPerMinute),
+});
 
-    await sleep(backoff);
-    if (!isShuttingDown) {
-      pollWeather();
-    }
-    return;
-  }
+for (const location of CONFIG.locations) {
+  ingester.addSource({
+    name: `current ${describeLocation(location)}`,
+    interval: CONFIG.pollInterval,
+    fetch: async () => [await fetchWeather(location)],
+    createMessage: createWeatherCurrentMessage,
+    routingKey: (data) => locationRoutingKey(ROUTING_KEYS.WEATHER_CURRENT, data.location.id),
+    // Keeps bindings on feed.weather.* matching
+    cc: [ROUTING_KEYS.WEATHER_CURRENT],
+    // OpenWeather refreshes observations less often than we poll
+    fingerprint: (data) => data.observedAt,
+    summarize: ([data]) =>
+      `${data.location.city}: ${data.temperature.current}°C, ${data.condition.description}`,
+  });
 
-  if (!isShuttingDown) {
-    pollTimer = setTimeout(pollWeather, CONFIG.pollInterval);
-  }
+  ingester.addSource({
+    name: `forecast ${describeLocation(location)}`,
+    interval: CONFIG.forecastPollInterval,
+    fetch: async () => [await fetchForecast(location)],
+    createMessage: createWeatherForecastMessage,
+    routingKey: (data) => locationRoutingKey(ROUTING_KEYS.WEATHER_FORECAST, data.location.id),
+    cc: [ROUTING_KEYS.WEATHER_FORECAST],
+    fingerprint: (data) => JSON.stringify(data.entries),
+    summarize: ([data]) => {
+      const temperatures = data.entries.map((e) => e.temperature);
+      return (
+        `${data.location.city} forecast: ${data.entries.length} entries, ` +
+        `${Math.min(...temperatures)}°C to ${Math.max(...temperatures)}°C`
+      );
+    },
+  });
 }
 
 // ============================================================================
 // Graceful Shutdown
 // ============================================================================
 
+let isShuttingDown = false;
+
 async function shutdown(): Promise<void> {
   if (isShuttingDown) return;
   isShuttingDown = true;
 
-  console.log('\n[Weather] Shutting down...');
+  log.info('Shutting down...');
 
-  if (pollTimer) {
-    clearTimeout(pollTimer);
-    pollTimer = null;
-  }
+  ingester.stop();
+  ingester.logMetrics();
+
+  await shutdownTracing();
 
   const manager = getConnectionManager();
   await manager.close();
 
-  console.log('[Weather] Shutdown complete');
+  log.info('Shutdown complete');
   process.exit(0);
 }
 
@@ -238,33 +284,40 @@ async function shutdown(): Promise<void> {
 async function main(): Promise<void> {
   // Validate API key exists
   if (!CONFIG.apiKey) {
-    console.error('[Weather] ERROR: OPENWEATHER_API_KEY environment variable is required');
-    console.error('[Weather] Get a free API key at https://openweathermap.org/api');
+    log.error('OPENWEATHER_API_KEY environment variable is required');
+    log.error('Get a free API key at https://openweathermap.org/api');
     process.exit(1);
   }
 
-  console.log('[Weather] Starting Weather Ingester...');
-  console.log(`[Weather] City: ${CONFIG.city}`);
-  console.log(`[Weather] Poll interval: ${CONFIG.pollInterval}ms`);
+  log.info('Starting Weather Ingester...');
+  log.info(`Locations: ${CONFIG.locations.map(describeLocation).join('; ')}`);
+  log.info(`Poll interval: ${CONFIG.pollInterval}ms`);
+  log.info(`Forecast poll interval: ${CONFIG.forecastPollInterval}ms`);
+  log.info(`Call budget: ${CONFIG.maxCallsPerMinute}/min`);
+  log.info(
+    `Heartbeat interval: ${CONFIG.heartbeatInterval > 0 ? `${CONFIG.heartbeatInterval}ms` : 'disabled'}`
+  );
+
+  const callsPerMinute = estimateCallsPerMinute();
+  if (callsPerMinute > CONFIG.maxCallsPerMinute) {
+    log.warn(
+      `${CONFIG.locations.length} location(s) need ~${callsPerMinute.toFixed(1)} calls/min, ` +
+        `over the budget; polls will fall behind their intervals`
+    );
+  }
 
   // Register shutdown handlers
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
-  // Connect to RabbitMQ
-  const manager = getConnectionManager();
-  channel = await manager.getChannel();
-
-  // Ensure topology exists
-  await setupTopology(channel);
-
-  console.log('[Weather] Connected to RabbitMQ, starting polling...');
+  startHttpServer(CONFIG.httpPort, 'Weather');
+  initTracing(MESSAGE_SOURCES.WEATHER_INGESTER);
 
-  // Start polling immediately
-  pollWeather();
+  // Connect, ensure topology, flush the outbox and start polling
+  await ingester.start();
 }
 
 main().catch((error) => {
-  console.error('[Weather] Fatal error:', error.message);
+  log.error('Fatal error', { error });
   process.exit(1);
 });
@@ -0,0 +1,108 @@
+import { alertRoutingKey } from './topology';
+import { Publisher } from './publisher';
+import { HttpError } from './ingester';
+import { AlertMessage } from './messages';
+import { createLogger } from './logger';
+
+// ============================================================================
+// Sink Interface
+// ============================================================================
+
+/** Destination for alert state changes. send() rejects if delivery failed. */
+export interface AlertSink {
+  readonly name: string;
+  send(message: AlertMessage): Promise<void>;
+}
+
+// ============================================================================
+// Sinks
+// ============================================================================
+
+/** Logs one info line per state change, in the LOG_FORMAT of the process */
+export class StdoutSink implements AlertSink {
+  readonly name = 'stdout';
+  private log = createLogger('ALERT');
+
+  async send(message: AlertMessage): Promise<void> {
+    const alert = message.data;
+    const subject = alert.subject ? ` [${alert.subject}]` : '';
+    const value = alert.value !== null ? ` (value: ${alert.value})` : '';
+    this.log.info(
+      `${alert.state.toUpperCase()} ${alert.severity} ${alert.ruleId}${subject}: ${alert.summary}${value}`
+    );
+  }
+}
+
+/** POSTs the alert envelope as JSON */
+export class WebhookSink implements AlertSink {
+  readonly name = 'webhook';
+  private url: string;
+  private timeout: number;
+
+  constructor(url: string, timeout: number) {
+    this.url = url;
+    this.timeout = timeout;
+  }
+
+  async send(message: AlertMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new HttpError(response.status, response.statusText);
+    }
+  }
+}
+
+/** Publishes to the topic exchange under alerts.<state> */
+export class TopicSink implements AlertSink {
+  readonly name = 'topic';
+  private publisher: Publisher;
+
+  constructor(publisher: Publisher) {
+    this.publisher = publisher;
+  }
+
+  async send(message: AlertMessage): Promise<void> {
+    // Buffered in the publisher's outbox if the broker is unreachable
+    await this.publisher.publish(message, alertRoutingKey(message.data.state));
+  }
+}
+
+// ============================================================================
+// Sink Factory
+// ============================================================================
+
+export const ALERT_SINK_NAMES = ['stdout', 'webhook', 'topic'] as const;
+
+export interface AlertSinkOptions {
+  /** Publisher used by the topic sink */
+  publisher: Publisher;
+  /** Required by the webhook sink */
+  webhookUrl?: string;
+  /** Webhook request timeout in ms */
+  webhookTimeout: number;
+}
+
+/** Creates sinks from their names (e.g., ALERT_SINKS="stdout,topic") */
+export function createAlertSinks(names: string[], options: AlertSinkOptions): AlertSink[] {
+  return names.map((name) => {
+    switch (name) {
+      case 'stdout':
+        return new StdoutSink();
+      case 'webhook':
+        if (!options.webhookUrl) {
+          throw new Error('The webhook alert sink needs ALERT_WEBHOOK_URL');
+        }
+        return new WebhookSink(options.webhookUrl, options.webhookTimeout);
+      case 'topic':
+        return new TopicSink(options.publisher);
+      default:
+        throw new Error(`Unknown alert sink "${name}" (expected ${ALERT_SINK_NAMES.join(', ')})`);
+    }
+  });
+}
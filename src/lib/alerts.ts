@@ -0,0 +1,425 @@
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { writeFileAtomic } from './files';
+import {
+  MessageEnvelope,
+  AlertData,
+  AlertSeverity,
+  ALERT_SEVERITIES,
+  CarbonGenerationData,
+  WeatherCurrentData,
+  FUEL_TYPES,
+  RENEWABLE_FUELS,
+  MESSAGE_TYPES,
+} from './messages';
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/** Message types rules can watch; the alerting queue is bound to exactly these */
+export const ALERTABLE_TYPES = [
+  MESSAGE_TYPES.CARBON_INTENSITY,
+  MESSAGE_TYPES.CARBON_GENERATION,
+  MESSAGE_TYPES.WEATHER_CURRENT,
+] as const;
+
+export const ALERT_OPERATORS = ['>', '>=', '<', '<=', 'in'] as const;
+
+export type AlertOperator = (typeof ALERT_OPERATORS)[number];
+
+interface BaseRule {
+  id: string;
+  /** Used as the alert summary; generated from the condition if omitted */
+  description?: string;
+  severity: AlertSeverity;
+  /** Minimum time between two fired events of the same alert in ms */
+  cooldownMs: number;
+  messageType: (typeof ALERTABLE_TYPES)[number];
+}
+
+/**
+ * Fires when a payload field satisfies the condition and resolves once it no
+ * longer satisfies it against `clear` (hysteresis; defaults to `value`).
+ *
+ * Fields are dotted paths into the payload (e.g., "forecast",
+ * "temperature.current"). Generation messages also offer "mix.<fuel>", the
+ * fuel's share (0 if absent), and "renewable", the wind + solar + hydro share.
+ * Weather rules are evaluated per location.
+ */
+export interface ThresholdRule extends BaseRule {
+  type: 'threshold';
+  field: string;
+  operator: AlertOperator;
+  /** A number, or for "in" a list of strings (e.g., intensity indexes) */
+  value: number | string[];
+  clear?: number;
+}
+
+/** Fires when no message of the type has arrived for `afterMs` */
+export interface SilenceRule extends BaseRule {
+  type: 'silence';
+  afterMs: number;
+}
+
+export type AlertRule = ThresholdRule | SilenceRule;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function checkRule(entry: unknown, index: number): AlertRule {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new Error(`Alert rule ${index} must be an object`);
+  }
+  const rule = entry as Record<string, unknown>;
+  const name = typeof rule.id === 'string' && rule.id.length > 0 ? rule.id : null;
+  if (!name) {
+    throw new Error(`Alert rule ${index} needs a non-empty id`);
+  }
+  const fail = (message: string) => new Error(`Alert rule "${name}" ${message}`);
+
+  if (!(ALERTABLE_TYPES as readonly unknown[]).includes(rule.messageType)) {
+    throw fail(`has unsupported messageType (expected ${ALERTABLE_TYPES.join(', ')})`);
+  }
+  const severity = rule.severity ?? 'warning';
+  if (!(ALERT_SEVERITIES as readonly unknown[]).includes(severity)) {
+    throw fail(`has invalid severity (expected ${ALERT_SEVERITIES.join(', ')})`);
+  }
+  const cooldownMs = rule.cooldownMs ?? 0;
+  if (!isNumber(cooldownMs) || cooldownMs < 0) {
+    throw fail('has invalid cooldownMs');
+  }
+  if (rule.description !== undefined && typeof rule.description !== 'string') {
+    throw fail('has a non-string description');
+  }
+
+  const base = {
+    id: name,
+    description: rule.description as string | undefined,
+    severity: severity as AlertSeverity,
+    cooldownMs,
+    messageType: rule.messageType as BaseRule['messageType'],
+  };
+
+  if (rule.type === 'silence') {
+    if (!isNumber(rule.afterMs) || rule.afterMs <= 0) {
+      throw fail('needs a positive afterMs');
+    }
+    return { ...base, type: 'silence', afterMs: rule.afterMs };
+  }
+
+  if (rule.type !== 'threshold') {
+    throw fail('has unknown type (expected threshold or silence)');
+  }
+  if (typeof rule.field !== 'string' || rule.field.length === 0) {
+    throw fail('needs a field');
+  }
+  if (rule.messageType === MESSAGE_TYPES.CARBON_GENERATION && rule.field.startsWith('mix.')) {
+    const fuel = rule.field.slice('mix.'.length);
+    if (!(FUEL_TYPES as readonly string[]).includes(fuel)) {
+      throw fail(`has unknown fuel "${fuel}" (expected ${FUEL_TYPES.join(', ')})`);
+    }
+  }
+
+  const operator = rule.operator as AlertOperator;
+  if (!(ALERT_OPERATORS as readonly unknown[]).includes(operator)) {
+    throw fail(`has invalid operator (expected ${ALERT_OPERATORS.join(', ')})`);
+  }
+
+  if (operator === 'in') {
+    if (!Array.isArray(rule.value) || !rule.value.every((v) => typeof v === 'string')) {
+      throw fail('needs a list of strings as value for "in"');
+    }
+    if (rule.clear !== undefined) {
+      throw fail('cannot use clear with "in"');
+    }
+    return { ...base, type: 'threshold', field: rule.field, operator, value: rule.value };
+  }
+
+  if (!isNumber(rule.value)) {
+    throw fail(`needs a numeric value for "${operator}"`);
+  }
+  if (rule.clear !== undefined) {
+    // The clear level must sit on the safe side of the threshold
+    const above = operator === '>' || operator === '>=';
+    if (!isNumber(rule.clear) || (above ? rule.clear > rule.value : rule.clear < rule.value)) {
+      throw fail(`needs a clear level ${above ? 'at or below' : 'at or above'} its value`);
+    }
+  }
+  return {
+    ...base,
+    type: 'threshold',
+    field: rule.field,
+    operator,
+    value: rule.value,
+    clear: rule.clear as number | undefined,
+  };
+}
+
+/** Reads a JSON array of alert rules, throwing on the first invalid one */
+export function loadAlertRules(path: string): AlertRule[] {
+  const entries: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${path} must contain a JSON array of alert rules`);
+  }
+
+  const rules = entries.map(checkRule);
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Alert rule id "${rule.id}" is used more than once`);
+    }
+    ids.add(rule.id);
+  }
+  return rules;
+}
+
+/** Human-readable condition of a rule, used when it has no description */
+export function describeRule(rule: AlertRule): string {
+  if (rule.description) return rule.description;
+
+  if (rule.type === 'silence') {
+    return `No ${rule.messageType} for ${rule.afterMs}ms`;
+  }
+  const value = Array.isArray(rule.value) ? `[${rule.value.join(', ')}]` : rule.value;
+  return `${rule.messageType} ${rule.field} ${rule.operator} ${value}`;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+type FieldValue = number | string;
+
+function readField(envelope: MessageEnvelope, field: string): FieldValue | undefined {
+  if (envelope.type === MESSAGE_TYPES.CARBON_GENERATION) {
+    const { mix } = envelope.data as CarbonGenerationData;
+    if (field.startsWith('mix.')) {
+      return mix.find((entry) => entry.fuel === field.slice('mix.'.length))?.percentage ?? 0;
+    }
+    if (field === 'renewable') {
+      return mix
+        .filter((entry) => RENEWABLE_FUELS.includes(entry.fuel))
+        .reduce((sum, entry) => sum + entry.percentage, 0);
+    }
+  }
+
+  let value: unknown = envelope.data;
+  for (const part of field.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'number' || typeof value === 'string' ? value : undefined;
+}
+
+function compare(operator: AlertOperator, actual: FieldValue, expected: number | string[]): boolean {
+  if (operator === 'in') {
+    return (expected as string[]).includes(String(actual));
+  }
+  if (typeof actual !== 'number') return false;
+
+  const threshold = expected as number;
+  switch (operator) {
+    case '>':
+      return actual > threshold;
+    case '>=':
+      return actual >= threshold;
+    case '<':
+      return actual < threshold;
+    case '<=':
+      return actual <= threshold;
+  }
+}
+
+/** Weather rules are tracked per location; everything else is feed-wide */
+function subjectOf(envelope: MessageEnvelope): string | null {
+  if (envelope.type === MESSAGE_TYPES.WEATHER_CURRENT) {
+    return (envelope.data as WeatherCurrentData).location.id;
+  }
+  return null;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+interface ActiveAlert {
+  alertId: string;
+  ruleId: string;
+  subject: string | null;
+  firedAt: string;
+}
+
+interface EngineState {
+  /** Alert key -> alert currently firing */
+  active: Record<string, ActiveAlert>;
+  /** Alert key -> when it last fired (ISO 8601), for cooldowns */
+  lastFired: Record<string, string>;
+  /** Message type -> when one last arrived (ISO 8601), for silence rules */
+  lastSeen: Record<string, string>;
+}
+
+/**
+ * Evaluates rules against incoming messages and reports only state changes:
+ * an alert fires once when its condition starts to hold and resolves once
+ * when it stops. A fire within the rule's cooldown of the previous one is
+ * held back until a later evaluation after the cooldown.
+ *
+ * With a state path, firing alerts survive restarts, so a restarted consumer
+ * neither repeats nor forgets them.
+ */
+export class AlertEngine {
+  private rules: AlertRule[];
+  private statePath: string | null;
+  private state: EngineState = { active: {}, lastFired: {}, lastSeen: {} };
+  // Silence is measured from startup for feeds not seen before
+  private startedAt = new Date().toISOString();
+
+  constructor(rules: AlertRule[], statePath: string | null = null) {
+    this.rules = rules;
+    this.statePath = statePath;
+    this.load();
+  }
+
+  /** Number of alerts currently firing */
+  get activeCount(): number {
+    return Object.keys(this.state.active).length;
+  }
+
+  /** Evaluates every rule watching the message's type */
+  evaluate(envelope: MessageEnvelope, now = new Date()): AlertData[] {
+    const events: AlertData[] = [];
+    this.state.lastSeen[envelope.type] = now.toISOString();
+
+    for (const rule of this.rules) {
+      if (rule.messageType !== envelope.type) continue;
+
+      if (rule.type === 'silence') {
+        // Any message of the type ends its silence
+        const resolved = this.resolve(rule, null, null, envelope.id, now);
+        if (resolved) events.push(resolved);
+        continue;
+      }
+
+      const value = readField(envelope, rule.field);
+      if (value === undefined) continue;
+
+      const subject = subjectOf(envelope);
+      const active = this.state.active[this.keyOf(rule, subject)];
+
+      if (!active && compare(rule.operator, value, rule.value)) {
+        const fired = this.fire(rule, subject, value, envelope.id, now);
+        if (fired) events.push(fired);
+      } else if (active && !compare(rule.operator, value, rule.clear ?? rule.value)) {
+        const resolved = this.resolve(rule, subject, value, envelope.id, now);
+        if (resolved) events.push(resolved);
+      }
+    }
+
+    return events;
+  }
+
+  /** Fires silence rules whose feed has been quiet for too long */
+  checkSilence(now = new Date()): AlertData[] {
+    const events: AlertData[] = [];
+
+    for (const rule of this.rules) {
+      if (rule.type !== 'silence') continue;
+
+      const lastSeen = Date.parse(this.state.lastSeen[rule.messageType] ?? this.startedAt);
+      if (now.getTime() - lastSeen >= rule.afterMs && !this.state.active[this.keyOf(rule, null)]) {
+        const fired = this.fire(rule, null, null, null, now);
+        if (fired) events.push(fired);
+      }
+    }
+
+    return events;
+  }
+
+  /** Writes the alert state to the state path, if there is one */
+  save(): void {
+    if (!this.statePath) return;
+
+    writeFileAtomic(this.statePath, JSON.stringify(this.state));
+  }
+
+  private load(): void {
+    if (!this.statePath || !existsSync(this.statePath)) return;
+
+    this.state = JSON.parse(readFileSync(this.statePath, 'utf-8')) as EngineState;
+
+    // Alerts of rules removed from the file are dropped without resolving
+    const ruleIds = new Set(this.rules.map((rule) => rule.id));
+    for (const [key, alert] of Object.entries(this.state.active)) {
+      if (!ruleIds.has(alert.ruleId)) delete this.state.active[key];
+    }
+  }
+
+  private keyOf(rule: AlertRule, subject: string | null): string {
+    return subject ? `${rule.id}:${subject}` : rule.id;
+  }
+
+  private fire(
+    rule: AlertRule,
+    subject: string | null,
+    value: FieldValue | null,
+    triggeredBy: string | null,
+    now: Date
+  ): AlertData | null {
+    const key = this.keyOf(rule, subject);
+
+    const lastFired = this.state.lastFired[key];
+    if (lastFired && now.getTime() - Date.parse(lastFired) < rule.cooldownMs) {
+      return null;
+    }
+
+    const alert: ActiveAlert = {
+      alertId: randomUUID(),
+      ruleId: rule.id,
+      subject,
+      firedAt: now.toISOString(),
+    };
+    this.state.active[key] = alert;
+    this.state.lastFired[key] = alert.firedAt;
+
+    return this.toAlertData(rule, alert, 'fired', value, triggeredBy, null);
+  }
+
+  private resolve(
+    rule: AlertRule,
+    subject: string | null,
+    value: FieldValue | null,
+    triggeredBy: string | null,
+    now: Date
+  ): AlertData | null {
+    const key = this.keyOf(rule, subject);
+    const alert = this.state.active[key];
+    if (!alert) return null;
+
+    delete this.state.active[key];
+    return this.toAlertData(rule, alert, 'resolved', value, triggeredBy, now.toISOString());
+  }
+
+  private toAlertData(
+    rule: AlertRule,
+    alert: ActiveAlert,
+    state: AlertData['state'],
+    value: FieldValue | null,
+    triggeredBy: string | null,
+    resolvedAt: string | null
+  ): AlertData {
+    return {
+      alertId: alert.alertId,
+      ruleId: rule.id,
+      subject: alert.subject,
+      state,
+      severity: rule.severity,
+      summary: describeRule(rule),
+      value,
+      firedAt: alert.firedAt,
+      resolvedAt,
+      triggeredBy,
+    };
+  }
+}
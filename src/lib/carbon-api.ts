@@ -0,0 +1,100 @@
+import {
+  CarbonIntensityData,
+  CarbonIntensityIndex,
+  FuelType,
+  GenerationMixEntry,
+} from './messages';
+
+/** Carbon Intensity API (National Grid ESO), no authentication required */
+export const CARBON_API_BASE_URL = 'https://api.carbonintensity.org.uk';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+export interface IntensityApiPeriod {
+  from: string;
+  to: string;
+  intensity: {
+    forecast: number;
+    actual: number | null;
+    index: string;
+  };
+}
+
+/** GET /intensity and /intensity/{from}/{to} */
+export interface IntensityApiResponse {
+  data: IntensityApiPeriod[];
+}
+
+export interface GenerationMixApiEntry {
+  fuel: string;
+  perc: number;
+}
+
+export interface GenerationApiPeriod {
+  from: string;
+  to: string;
+  generationmix: GenerationMixApiEntry[];
+}
+
+/** GET /generation */
+export interface GenerationApiResponse {
+  data: GenerationApiPeriod;
+}
+
+/** GET /generation/{from}/{to} */
+export interface GenerationRangeApiResponse {
+  data: GenerationApiPeriod[];
+}
+
+/** GET /regional */
+export interface RegionalApiResponse {
+  data: Array<{
+    from: string;
+    to: string;
+    regions: Array<{
+      regionid: number;
+      dnoregion: string;
+      shortname: string;
+      intensity: {
+        forecast: number;
+        index: string;
+      };
+      generationmix: GenerationMixApiEntry[];
+    }>;
+  }>;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+export function toIntensityData(period: IntensityApiPeriod): CarbonIntensityData {
+  return {
+    periodStart: period.from,
+    periodEnd: period.to,
+    forecast: period.intensity.forecast,
+    actual: period.intensity.actual,
+    index: period.intensity.index as CarbonIntensityIndex,
+  };
+}
+
+export function toGenerationMix(entries: GenerationMixApiEntry[]): GenerationMixEntry[] {
+  return entries.map((entry) => ({
+    fuel: entry.fuel as FuelType,
+    percentage: entry.perc,
+  }));
+}
+
+/** Formats a time as the API expects in URL paths: YYYY-MM-DDThh:mmZ */
+export function formatApiTime(date: Date): string {
+  return date.toISOString().slice(0, 16) + 'Z';
+}
+
+const SETTLEMENT_PERIOD_MS = 30 * 60 * 1000;
+
+/** Start of the half-hour settlement period containing the time, formatted as the API formats `from` */
+export function settlementPeriodStart(time: Date): string {
+  return formatApiTime(new Date(Math.floor(time.getTime() / SETTLEMENT_PERIOD_MS) * SETTLEMENT_PERIOD_MS));
+}
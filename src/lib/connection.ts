@@ -1,4 +1,9 @@
 import amqp from 'amqplib';
+import { METRICS } from './metrics';
+import { createLogger } from './logger';
+import { health, HealthCheckResult } from './health';
+
+const log = createLogger('ConnectionManager');
 
 export interface ConnectionManagerOptions {
   url: string;
@@ -9,10 +14,30 @@ export interface ConnectionManagerOptions {
 
 type AmqpConnection = Awaited<ReturnType<typeof amqp.connect>>;
 type AmqpChannel = Awaited<ReturnType<AmqpConnection['createChannel']>>;
+type AmqpConfirmChannel = Awaited<ReturnType<AmqpConnection['createConfirmChannel']>>;
 
 type ConnectionListener = (connection: AmqpConnection) => void;
 type ErrorListener = (error: Error) => void;
 
+/** Removes a previously registered listener */
+export type Unsubscribe = () => void;
+
+/** Snapshot of the connection, as reported on /healthz and /readyz */
+export interface ConnectionStatus {
+  connected: boolean;
+  channelOpen: boolean;
+  confirmChannelOpen: boolean;
+  /** A connect or reconnect is in progress */
+  connecting: boolean;
+  /** Attempts failed since the last successful connect */
+  failedAttempts: number;
+  /** Connecting failed after all retries; the manager no longer reconnects */
+  gaveUp: boolean;
+  lastConnectedAt: string | null;
+  /** When the connection was lost, while it is down */
+  disconnectedAt: string | null;
+}
+
 export class ConnectionManager {
   private url: string;
   private maxRetries: number;
@@ -21,11 +46,17 @@ export class ConnectionManager {
 
   private connection: AmqpConnection | null = null;
   private channel: AmqpChannel | null = null;
+  private confirmChannel: AmqpConfirmChannel | null = null;
   private isConnecting = false;
   private isClosed = false;
   private retryCount = 0;
+  private hasConnected = false;
+  private hasGivenUp = false;
+  private lastConnectedAt: Date | null = null;
+  private disconnectedAt: Date | null = null;
 
   private connectionListeners: ConnectionListener[] = [];
+  private reconnectListeners: ConnectionListener[] = [];
   private errorListeners: ErrorListener[] = [];
 
   constructor(options: ConnectionManagerOptions) {
@@ -42,63 +73,86 @@ export class ConnectionManager {
 
     if (this.isConnecting) {
       return new Promise((resolve, reject) => {
-        this.onConnection((conn) => resolve(conn));
-        this.onError((err) => reject(err));
+        const offConnection = this.onConnection((conn) => {
+          offConnection();
+          offError();
+          resolve(conn);
+        });
+        const offError = this.onError((err) => {
+          offConnection();
+          offError();
+          reject(err);
+        });
       });
     }
 
     this.isConnecting = true;
     this.isClosed = false;
 
+    // A call after giving up starts over with a full set of retries
+    if (this.hasGivenUp) {
+      this.hasGivenUp = false;
+      this.retryCount = 0;
+    }
+
     while (this.retryCount <= this.maxRetries && !this.isClosed) {
       try {
         const conn = await amqp.connect(this.url);
         this.connection = conn;
         this.retryCount = 0;
         this.isConnecting = false;
+        this.lastConnectedAt = new Date();
+        this.disconnectedAt = null;
 
         conn.on('error', (err: Error) => {
-          console.error('[ConnectionManager] Connection error:', err.message);
+          log.error('Connection error', { error: err });
           this.handleDisconnect();
         });
 
         conn.on('close', () => {
           if (!this.isClosed) {
-            console.warn('[ConnectionManager] Connection closed unexpectedly');
+            log.warn('Connection closed unexpectedly');
             this.handleDisconnect();
           }
         });
 
-        console.log('[ConnectionManager] Connected to RabbitMQ');
-        this.connectionListeners.forEach((listener) => listener(conn));
-        this.connectionListeners = [];
+        log.info('Connected to RabbitMQ');
+        const isReconnect = this.hasConnected;
+        this.hasConnected = true;
+
+        [...this.connectionListeners].forEach((listener) => listener(conn));
+        if (isReconnect) {
+          METRICS.reconnects.inc();
+          [...this.reconnectListeners].forEach((listener) => listener(conn));
+        }
 
         return conn;
       } catch (error) {
         this.retryCount++;
         const delay = this.calculateBackoff();
 
-        console.error(
-          `[ConnectionManager] Connection attempt ${this.retryCount} failed:`,
-          (error as Error).message
-        );
+        log.error(`Connection attempt ${this.retryCount} failed`, { error });
 
         if (this.retryCount > this.maxRetries) {
           this.isConnecting = false;
+          this.hasGivenUp = true;
           const finalError = new Error(
             `Failed to connect after ${this.maxRetries} attempts: ${(error as Error).message}`
           );
-          this.errorListeners.forEach((listener) => listener(finalError));
-          this.errorListeners = [];
+          [...this.errorListeners].forEach((listener) => listener(finalError));
           throw finalError;
         }
 
-        console.log(`[ConnectionManager] Retrying in ${delay}ms...`);
+        log.info(`Retrying in ${delay}ms...`);
         await this.sleep(delay);
       }
     }
 
-    throw new Error('Connection aborted');
+    // close() was called meanwhile; callers waiting on this attempt get the error too
+    this.isConnecting = false;
+    const abortError = new Error('Connection aborted');
+    [...this.errorListeners].forEach((listener) => listener(abortError));
+    throw abortError;
   }
 
   async getChannel(): Promise<AmqpChannel> {
@@ -111,21 +165,52 @@ export class ConnectionManager {
     this.channel = ch;
 
     ch.on('error', (err: Error) => {
-      console.error('[ConnectionManager] Channel error:', err.message);
+      log.error('Channel error', { error: err });
       this.channel = null;
     });
 
     ch.on('close', () => {
-      console.warn('[ConnectionManager] Channel closed');
+      log.warn('Channel closed');
       this.channel = null;
     });
 
     return ch;
   }
 
+  async getConfirmChannel(): Promise<AmqpConfirmChannel> {
+    if (this.confirmChannel) {
+      return this.confirmChannel;
+    }
+
+    const connection = await this.connect();
+    const ch = await connection.createConfirmChannel();
+    this.confirmChannel = ch;
+
+    ch.on('error', (err: Error) => {
+      log.error('Confirm channel error', { error: err });
+      this.confirmChannel = null;
+    });
+
+    ch.on('close', () => {
+      log.warn('Confirm channel closed');
+      this.confirmChannel = null;
+    });
+
+    return ch;
+  }
+
   async close(): Promise<void> {
     this.isClosed = true;
 
+    if (this.confirmChannel) {
+      try {
+        await this.confirmChannel.close();
+      } catch {
+        // Ignore close errors
+      }
+      this.confirmChannel = null;
+    }
+
     if (this.channel) {
       try {
         await this.channel.close();
@@ -144,33 +229,81 @@ export class ConnectionManager {
       this.connection = null;
     }
 
-    console.log('[ConnectionManager] Connection closed');
+    log.info('Connection closed');
   }
 
-  onConnection(listener: ConnectionListener): void {
-    this.connectionListeners.push(listener);
+  /** Called after every successful connect, including reconnects */
+  onConnection(listener: ConnectionListener): Unsubscribe {
+    return this.addListener(this.connectionListeners, listener);
   }
 
-  onError(listener: ErrorListener): void {
-    this.errorListeners.push(listener);
+  /**
+   * Called only when a connection is re-established after being lost. Channels
+   * from the old connection are gone, so listeners should recreate theirs.
+   */
+  onReconnect(listener: ConnectionListener): Unsubscribe {
+    return this.addListener(this.reconnectListeners, listener);
+  }
+
+  /** Called when connecting fails after all retries, or is aborted by close() */
+  onError(listener: ErrorListener): Unsubscribe {
+    return this.addListener(this.errorListeners, listener);
   }
 
   isConnected(): boolean {
     return this.connection !== null && !this.isClosed;
   }
 
+  getStatus(): ConnectionStatus {
+    return {
+      connected: this.isConnected(),
+      channelOpen: this.channel !== null,
+      confirmChannelOpen: this.confirmChannel !== null,
+      connecting: this.isConnecting,
+      failedAttempts: this.retryCount,
+      gaveUp: this.hasGivenUp,
+      lastConnectedAt: this.lastConnectedAt?.toISOString() ?? null,
+      disconnectedAt: this.disconnectedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Ready while connected. Only degraded once reconnecting has been given up:
+   * until then the manager recovers on its own.
+   */
+  checkHealth(): HealthCheckResult {
+    const status = this.getStatus();
+    return {
+      healthy: !status.gaveUp,
+      ready: status.connected,
+      details: { ...status },
+    };
+  }
+
   private handleDisconnect(): void {
+    this.disconnectedAt ??= new Date();
     this.connection = null;
     this.channel = null;
+    this.confirmChannel = null;
 
     if (!this.isClosed) {
-      console.log('[ConnectionManager] Attempting to reconnect...');
+      log.info('Attempting to reconnect...');
       this.connect().catch((err) => {
-        console.error('[ConnectionManager] Reconnection failed:', err.message);
+        log.error('Reconnection failed', { error: err });
       });
     }
   }
 
+  private addListener<T>(listeners: T[], listener: T): Unsubscribe {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
   private calculateBackoff(): number {
     const delay = this.initialRetryDelay * Math.pow(2, this.retryCount - 1);
     return Math.min(delay, this.maxRetryDelay);
@@ -188,9 +321,12 @@ export function getConnectionManager(url?: string): ConnectionManager {
   if (!defaultManager) {
     const connectionUrl = url ?? process.env.RABBITMQ_URL ?? 'amqp://localhost';
     defaultManager = new ConnectionManager({ url: connectionUrl });
+
+    const manager = defaultManager;
+    health.register('broker', () => manager.checkHealth());
   }
   return defaultManager;
 }
 
 // Re-export Channel type for consumers
-export type { AmqpChannel as Channel };
+export type { AmqpChannel as Channel, AmqpConfirmChannel as ConfirmChannel };
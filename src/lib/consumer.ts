@@ -0,0 +1,345 @@
+import { ConsumeMessage } from 'amqplib';
+import { ConnectionManager, getConnectionManager, Channel, Unsubscribe } from './connection';
+import { setupTopology } from './topology';
+import { METRICS } from './metrics';
+import { Logger, createLogger } from './logger';
+import { getOriginalRoutingKey } from './retry';
+import { extractTraceContext, withSpan } from './tracing';
+import { health, getHealthGracePeriod, HealthCheckResult } from './health';
+
+export type MessageHandler = (msg: ConsumeMessage, channel: Channel) => void | Promise<void>;
+
+export interface ConsumerOptions {
+  /** Queue to consume from */
+  queue: string;
+  /** Maximum unacked messages delivered to this consumer */
+  prefetch: number;
+  /** Called for every delivery; responsible for acking or nacking it */
+  handler: MessageHandler;
+  /**
+   * Called before the first delivery of each subscription. A standby on a
+   * single active consumer queue receives nothing, so for it this marks
+   * taking over from the active instance.
+   */
+  onActive?: () => void;
+  /** Component name in log lines (e.g., "Logger") */
+  logPrefix: string;
+  manager?: ConnectionManager;
+  /** Delay before resubscribing after the channel alone closes, in ms */
+  resubscribeDelay?: number;
+  /** How long the consumer may stay unsubscribed while connected before it is degraded, in ms */
+  unhealthyAfter?: number;
+}
+
+/**
+ * A queue subscription that survives broker restarts.
+ *
+ * The consumer owns its channel. Whenever that channel is lost, either on its
+ * own or because the connection dropped, a new channel is opened, topology is
+ * re-asserted, prefetch re-applied and the queue consumed again.
+ *
+ * Acks, nacks and end-to-end latency are recorded per queue, whichever
+ * handler settles the delivery. Each delivery is handled in a span continuing
+ * the trace from its `traceparent` header. While started, the subscription is
+ * reported on /healthz and /readyz as `consumer:<queue>`. A handler that
+ * rejects is logged instead of crashing the process, and its delivery is left
+ * for the broker to redeliver.
+ */
+export class Consumer {
+  private queue: string;
+  private prefetch: number;
+  private handler: MessageHandler;
+  private onActive: (() => void) | null;
+  private log: Logger;
+  private manager: ConnectionManager;
+  private resubscribeDelay: number;
+  private unhealthyAfter: number;
+
+  private channel: Channel | null = null;
+  private consumerTag: string | null = null;
+  private isStopped = false;
+  private isSubscribing = false;
+  private resubscribeTimer: NodeJS.Timeout | null = null;
+  private offReconnect: Unsubscribe | null = null;
+  private offHealth: Unsubscribe | null = null;
+  private unsubscribedSince: Date | null = null;
+  private lastDeliveryAt: Date | null = null;
+
+  constructor(options: ConsumerOptions) {
+    this.queue = options.queue;
+    this.prefetch = options.prefetch;
+    this.handler = options.handler;
+    this.onActive = options.onActive ?? null;
+    this.log = createLogger(options.logPrefix, { queue: options.queue });
+    this.manager = options.manager ?? getConnectionManager();
+    this.resubscribeDelay = options.resubscribeDelay ?? 1000;
+    this.unhealthyAfter = options.unhealthyAfter ?? getHealthGracePeriod();
+  }
+
+  async start(): Promise<void> {
+    this.isStopped = false;
+    this.unsubscribedSince = new Date();
+    this.offHealth = health.register(`consumer:${this.queue}`, () => this.checkHealth());
+    this.offReconnect = this.manager.onReconnect(() => {
+      this.log.info('Connection re-established, resubscribing...');
+      this.resubscribe();
+    });
+
+    await this.subscribe();
+  }
+
+  async stop(): Promise<void> {
+    this.isStopped = true;
+
+    if (this.offReconnect) {
+      this.offReconnect();
+      this.offReconnect = null;
+    }
+    if (this.resubscribeTimer) {
+      clearTimeout(this.resubscribeTimer);
+      this.resubscribeTimer = null;
+    }
+    if (this.offHealth) {
+      this.offHealth();
+      this.offHealth = null;
+    }
+
+    if (this.channel && this.consumerTag) {
+      try {
+        await this.channel.cancel(this.consumerTag);
+        this.log.info('Consumer cancelled');
+      } catch {
+        // Ignore errors during shutdown
+      }
+    }
+
+    if (this.channel) {
+      try {
+        await this.channel.close();
+      } catch {
+        // Ignore close errors
+      }
+    }
+
+    this.channel = null;
+    this.consumerTag = null;
+  }
+
+  /** True while a channel is open and consuming */
+  isSubscribed(): boolean {
+    return this.channel !== null && this.consumerTag !== null;
+  }
+
+  /**
+   * Ready while subscribed. Degraded once the broker is reachable but the queue
+   * has gone unconsumed for longer than unhealthyAfter; a lost connection is
+   * the broker check's to report.
+   */
+  checkHealth(): HealthCheckResult {
+    const subscribed = this.isSubscribed();
+    const unsubscribedFor = subscribed || !this.unsubscribedSince ? 0 : Date.now() - this.unsubscribedSince.getTime();
+
+    return {
+      healthy: subscribed || !this.manager.isConnected() || unsubscribedFor < this.unhealthyAfter,
+      ready: subscribed,
+      details: {
+        queue: this.queue,
+        subscribed,
+        prefetch: this.prefetch,
+        unsubscribedSince: subscribed ? null : this.unsubscribedSince?.toISOString() ?? null,
+        lastDeliveryAt: this.lastDeliveryAt?.toISOString() ?? null,
+      },
+    };
+  }
+
+  private async subscribe(): Promise<void> {
+    const connection = await this.manager.connect();
+    const channel = await connection.createChannel();
+
+    channel.on('error', (err: Error) => {
+      this.log.error('Channel error', { error: err });
+    });
+
+    channel.on('close', () => {
+      if (this.channel !== channel) return;
+
+      this.channel = null;
+      this.consumerTag = null;
+      this.unsubscribedSince = new Date();
+
+      if (!this.isStopped) {
+        this.log.warn(`Channel closed, resubscribing in ${this.resubscribeDelay}ms`);
+        this.scheduleResubscribe();
+      }
+    });
+
+    let consumerTag: string;
+    try {
+      await setupTopology(channel);
+      await channel.prefetch(this.prefetch);
+      ({ consumerTag } = await this.consume(channel));
+    } catch (error) {
+      // Not yet this.channel, so nothing else would ever close it
+      await channel.close().catch(() => {
+        // Already closed by the failure
+      });
+      throw error;
+    }
+
+    this.channel = channel;
+    this.consumerTag = consumerTag;
+    this.unsubscribedSince = null;
+  }
+
+  /** Consumes the queue on the channel, handling each delivery in a span */
+  private consume(channel: Channel): Promise<{ consumerTag: string }> {
+    const instrumented = this.instrument(channel);
+    let isActive = false;
+    return channel.consume(this.queue, (msg) => {
+      if (!msg) {
+        // Broker cancelled the consumer (e.g., queue deleted)
+        this.log.warn('Consumer cancelled by broker');
+        this.consumerTag = null;
+        this.unsubscribedSince = new Date();
+        return;
+      }
+      if (!isActive) {
+        isActive = true;
+        this.activate();
+      }
+      this.lastDeliveryAt = new Date();
+      this.observeLatency(msg);
+      withSpan(
+        `handle ${this.queue}`,
+        {
+          kind: 'consumer',
+          parent: extractTraceContext(msg.properties.headers),
+          attributes: {
+            'messaging.system': 'rabbitmq',
+            'messaging.destination.name': this.queue,
+            'messaging.rabbitmq.destination.routing_key': getOriginalRoutingKey(msg),
+            'messaging.message.id': String(msg.properties.messageId ?? ''),
+          },
+        },
+        () => this.handler(msg, instrumented)
+      ).catch((error) => this.handleRejection(msg, channel, error));
+    });
+  }
+
+  private activate(): void {
+    if (!this.onActive) return;
+
+    this.log.info('Receiving deliveries');
+    try {
+      this.onActive();
+    } catch (error) {
+      this.log.error('Failed to prepare for deliveries', { error });
+    }
+  }
+
+  /**
+   * Handles an error the handler let escape, typically an ack or retry publish
+   * on a channel that closed while the handler was awaiting. amqplib ignores
+   * the handler's promise, so left alone it would be an unhandled rejection.
+   *
+   * The delivery is never settled here when the channel is gone: the broker
+   * redelivers it once the consumer has resubscribed. On a channel still open
+   * it is requeued so it does not hold a prefetch slot forever.
+   */
+  private handleRejection(msg: ConsumeMessage, channel: Channel, error: unknown): void {
+    const fields = {
+      messageId: msg.properties.messageId,
+      routingKey: getOriginalRoutingKey(msg),
+      error,
+    };
+
+    if (this.channel !== channel) {
+      this.log.warn('Handler failed after the channel closed, the broker will redeliver', fields);
+      return;
+    }
+
+    this.log.error('Handler failed without settling the delivery, requeueing', fields);
+    try {
+      channel.nack(msg, false, true);
+    } catch {
+      // The channel closed meanwhile; the broker redelivers the message
+    }
+  }
+
+  /** Wraps the channel so every ack and nack the handler sends is counted */
+  private instrument(channel: Channel): Channel {
+    const queue = this.queue;
+
+    return new Proxy(channel, {
+      get(target, property) {
+        if (property === 'ack') {
+          return (msg: ConsumeMessage, allUpTo?: boolean) => {
+            METRICS.acks.inc({ queue });
+            target.ack(msg, allUpTo);
+          };
+        }
+        if (property === 'nack') {
+          return (msg: ConsumeMessage, allUpTo?: boolean, requeue?: boolean) => {
+            METRICS.nacks.inc({ queue });
+            target.nack(msg, allUpTo, requeue);
+          };
+        }
+
+        const value = Reflect.get(target, property, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * Records the time since the envelope was created. Malformed messages are
+   * left to the handler to reject.
+   */
+  private observeLatency(msg: ConsumeMessage): void {
+    let envelope: { type?: unknown; timestamp?: unknown };
+    try {
+      envelope = JSON.parse(msg.content.toString());
+    } catch {
+      return;
+    }
+
+    if (typeof envelope?.type !== 'string' || typeof envelope.timestamp !== 'string') return;
+    const createdAt = Date.parse(envelope.timestamp);
+    if (isNaN(createdAt)) return;
+
+    METRICS.endToEndLatency.observe(Math.max(0, Date.now() - createdAt) / 1000, {
+      queue: this.queue,
+      type: envelope.type,
+    });
+  }
+
+  private scheduleResubscribe(): void {
+    if (this.resubscribeTimer) return;
+
+    this.resubscribeTimer = setTimeout(() => {
+      this.resubscribeTimer = null;
+
+      // A lost connection is handled by the reconnect event instead
+      if (this.manager.isConnected()) {
+        this.resubscribe();
+      }
+    }, this.resubscribeDelay);
+  }
+
+  private resubscribe(): void {
+    if (this.isStopped || this.isSubscribing || this.isSubscribed()) return;
+    this.isSubscribing = true;
+
+    this.subscribe()
+      .then(() => {
+        this.log.info(`Resubscribed to ${this.queue} (prefetch=${this.prefetch})`);
+      })
+      .catch((err: Error) => {
+        this.log.error('Resubscribe failed', { error: err });
+        this.scheduleResubscribe();
+      })
+      .finally(() => {
+        this.isSubscribing = false;
+      });
+  }
+}
@@ -0,0 +1,301 @@
+import { existsSync, readFileSync } from 'fs';
+import { writeFileAtomic } from './files';
+import {
+  CarbonIntensityData,
+  CarbonGenerationData,
+  WeatherCurrentData,
+  CorrelationData,
+  CorrelationObservation,
+  CorrelationStats,
+  RENEWABLE_FUELS,
+} from './messages';
+
+/** Readings are joined on half-hour settlement periods */
+const PERIOD_MS = 30 * 60 * 1000;
+
+function periodOf(time: string): number {
+  return Math.floor(Date.parse(time) / PERIOD_MS) * PERIOD_MS;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Pearson correlation coefficient of paired values */
+export function pearson(xs: number[], ys: number[]): CorrelationStats {
+  const samples = xs.length;
+  if (samples < 3) return { samples, coefficient: null };
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (let i = 0; i < samples; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+  }
+
+  // A constant series correlates with nothing
+  if (sxx === 0 || syy === 0) return { samples, coefficient: null };
+
+  const r = sxy / Math.sqrt(sxx * syy);
+  return { samples, coefficient: round(Math.max(-1, Math.min(1, r)), 3) };
+}
+
+// ============================================================================
+// Joiner
+// ============================================================================
+
+export interface CorrelationJoinerOptions {
+  /** How long after a period ends late readings are still joined in ms */
+  joinWindow: number;
+  /** Joined periods the correlation stats are computed over */
+  sampleSize: number;
+  /** Snapshot file; open periods and samples are kept in memory only without one */
+  statePath?: string | null;
+}
+
+/** Result of adding a reading: late readings belong to a period already closed */
+export type JoinResult = 'accepted' | 'late';
+
+interface Bucket {
+  /** Period start (epoch ms) */
+  start: number;
+  intensity: CarbonIntensityData | null;
+  generation: CarbonGenerationData | null;
+  /** Location ID -> latest observation in the period */
+  observations: Record<string, CorrelationObservation>;
+}
+
+interface Sample {
+  periodStart: string;
+  windSpeed: number;
+  temperature: number;
+  windPercentage: number | null;
+  intensity: number | null;
+}
+
+interface Snapshot {
+  buckets: Bucket[];
+  samples: Sample[];
+  closedBefore: number | null;
+}
+
+/**
+ * Joins carbon and weather readings on half-hour periods.
+ *
+ * Readings may arrive in any order: a period stays open until `joinWindow`
+ * after it ends, and revisions within it replace earlier readings (the
+ * latest intensity and generation, the latest observation per location).
+ * Once closed, a period with weather and at least one carbon reading is
+ * joined and added to the correlation samples; readings for it that arrive
+ * afterwards are late and dropped.
+ */
+export class CorrelationJoiner {
+  private joinWindow: number;
+  private sampleSize: number;
+  private statePath: string | null;
+
+  private buckets = new Map<number, Bucket>();
+  private samples: Sample[] = [];
+  /** Periods starting before this (epoch ms) have been closed */
+  private closedBefore: number | null = null;
+
+  constructor(options: CorrelationJoinerOptions) {
+    this.joinWindow = options.joinWindow;
+    this.sampleSize = options.sampleSize;
+    this.statePath = options.statePath ?? null;
+    this.load();
+  }
+
+  /** Number of periods waiting for their join window to pass */
+  get openPeriods(): number {
+    return this.buckets.size;
+  }
+
+  addIntensity(data: CarbonIntensityData): JoinResult {
+    const bucket = this.bucketFor(data.periodStart);
+    if (!bucket) return 'late';
+
+    // A revision without an actual never erases one already seen
+    bucket.intensity = { ...data, actual: data.actual ?? bucket.intensity?.actual ?? null };
+    return 'accepted';
+  }
+
+  addGeneration(data: CarbonGenerationData): JoinResult {
+    const bucket = this.bucketFor(data.periodStart);
+    if (!bucket) return 'late';
+
+    if (!bucket.generation || Date.parse(data.timestamp) >= Date.parse(bucket.generation.timestamp)) {
+      bucket.generation = data;
+    }
+    return 'accepted';
+  }
+
+  addObservation(data: WeatherCurrentData): JoinResult {
+    const bucket = this.bucketFor(data.observedAt);
+    if (!bucket) return 'late';
+
+    const existing = bucket.observations[data.location.id];
+    if (!existing || Date.parse(data.observedAt) >= Date.parse(existing.observedAt)) {
+      bucket.observations[data.location.id] = {
+        locationId: data.location.id,
+        observedAt: data.observedAt,
+        windSpeed: data.wind.speed,
+        temperature: data.temperature.current,
+      };
+    }
+    return 'accepted';
+  }
+
+  /**
+   * Closes every period whose join window has passed, oldest first. Returns
+   * the joined periods and how many closed without both sides.
+   */
+  close(now = new Date()): { joined: CorrelationData[]; incomplete: number } {
+    const joined: CorrelationData[] = [];
+    let incomplete = 0;
+
+    const due = [...this.buckets.values()]
+      .filter((bucket) => bucket.start + PERIOD_MS + this.joinWindow <= now.getTime())
+      .sort((a, b) => a.start - b.start);
+
+    for (const bucket of due) {
+      this.buckets.delete(bucket.start);
+      this.closedBefore = Math.max(this.closedBefore ?? 0, bucket.start + PERIOD_MS);
+
+      const data = this.join(bucket);
+      if (data) {
+        joined.push(data);
+      } else {
+        incomplete++;
+      }
+    }
+
+    return { joined, incomplete };
+  }
+
+  /** Writes open periods and samples to the state path, if there is one */
+  save(): void {
+    if (!this.statePath) return;
+
+    const snapshot: Snapshot = {
+      buckets: [...this.buckets.values()],
+      samples: this.samples,
+      closedBefore: this.closedBefore,
+    };
+
+    writeFileAtomic(this.statePath, JSON.stringify(snapshot));
+  }
+
+  /**
+   * Merges the snapshot into the periods held, taking its periods and samples
+   * over this instance's. Used when taking over from another instance, whose
+   * snapshot is newer.
+   */
+  reload(): void {
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.statePath || !existsSync(this.statePath)) return;
+
+    const snapshot = JSON.parse(readFileSync(this.statePath, 'utf-8')) as Snapshot;
+    for (const bucket of snapshot.buckets) {
+      this.buckets.set(bucket.start, bucket);
+    }
+    this.samples = snapshot.samples.slice(-this.sampleSize);
+
+    if (snapshot.closedBefore !== null) {
+      const closedBefore = Math.max(this.closedBefore ?? 0, snapshot.closedBefore);
+      this.closedBefore = closedBefore;
+      for (const start of this.buckets.keys()) {
+        if (start < closedBefore) this.buckets.delete(start);
+      }
+    }
+  }
+
+  private bucketFor(time: string): Bucket | null {
+    const start = periodOf(time);
+    if (this.closedBefore !== null && start < this.closedBefore) {
+      return null;
+    }
+
+    let bucket = this.buckets.get(start);
+    if (!bucket) {
+      bucket = { start, intensity: null, generation: null, observations: {} };
+      this.buckets.set(start, bucket);
+    }
+    return bucket;
+  }
+
+  private join(bucket: Bucket): CorrelationData | null {
+    const observations = Object.values(bucket.observations).sort((a, b) =>
+      a.locationId.localeCompare(b.locationId)
+    );
+    if (observations.length === 0 || (!bucket.intensity && !bucket.generation)) {
+      return null;
+    }
+
+    const mix = bucket.generation?.mix;
+    const windPercentage = mix
+      ? mix.find((entry) => entry.fuel === 'wind')?.percentage ?? 0
+      : null;
+    const renewablePercentage = mix
+      ? round(
+          mix
+            .filter((entry) => RENEWABLE_FUELS.includes(entry.fuel))
+            .reduce((sum, entry) => sum + entry.percentage, 0),
+          1
+        )
+      : null;
+    const intensity = bucket.intensity ? bucket.intensity.actual ?? bucket.intensity.forecast : null;
+
+    const periodStart = new Date(bucket.start).toISOString();
+    const windSpeed = round(mean(observations.map((o) => o.windSpeed)), 1);
+    const temperature = round(mean(observations.map((o) => o.temperature)), 1);
+
+    this.samples.push({ periodStart, windSpeed, temperature, windPercentage, intensity });
+    if (this.samples.length > this.sampleSize) {
+      this.samples.splice(0, this.samples.length - this.sampleSize);
+    }
+
+    return {
+      periodStart,
+      periodEnd: new Date(bucket.start + PERIOD_MS).toISOString(),
+      carbon: {
+        intensity,
+        intensityIsActual: bucket.intensity?.actual != null,
+        windPercentage,
+        renewablePercentage,
+      },
+      weather: { windSpeed, temperature, observations },
+      correlation: {
+        windSpeedVsWindShare: this.correlate('windSpeed', 'windPercentage'),
+        temperatureVsIntensity: this.correlate('temperature', 'intensity'),
+      },
+    };
+  }
+
+  private correlate(x: 'windSpeed' | 'temperature', y: 'windPercentage' | 'intensity'): CorrelationStats {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const sample of this.samples) {
+      const value = sample[y];
+      if (value !== null) {
+        xs.push(sample[x]);
+        ys.push(value);
+      }
+    }
+    return pearson(xs, ys);
+  }
+}
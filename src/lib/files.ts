@@ -0,0 +1,15 @@
+import { mkdirSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Writes a file, creating its directory if needed. The data goes to a
+ * temporary file renamed over the target, so a crash never leaves a
+ * half-written file.
+ */
+export function writeFileAtomic(path: string, data: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, data);
+  renameSync(tmpPath, path);
+}
@@ -0,0 +1,112 @@
+import {
+  CarbonForecastPeriod,
+  CarbonIntensityIndex,
+  CARBON_INTENSITY_INDEXES,
+  GreenWindow,
+} from './messages';
+
+const HALF_HOUR_MS = 30 * 60 * 1000;
+
+export interface GreenWindowOptions {
+  /** Length of each window in hours */
+  windowHours: number;
+  /** Maximum number of non-overlapping windows to return */
+  count: number;
+  /** Periods that have ended by this time are ignored */
+  now?: Date;
+}
+
+interface Candidate {
+  /** Index of the first period in its run */
+  first: number;
+  periods: CarbonForecastPeriod[];
+  average: number;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function worstIndex(periods: CarbonForecastPeriod[]): CarbonIntensityIndex {
+  return periods.reduce<CarbonIntensityIndex>(
+    (worst, period) =>
+      CARBON_INTENSITY_INDEXES.indexOf(period.index) > CARBON_INTENSITY_INDEXES.indexOf(worst)
+        ? period.index
+        : worst,
+    CARBON_INTENSITY_INDEXES[0]
+  );
+}
+
+/** Splits periods into runs without gaps, so windows never span missing data */
+function contiguousRuns(periods: CarbonForecastPeriod[]): CarbonForecastPeriod[][] {
+  const runs: CarbonForecastPeriod[][] = [];
+  let current: CarbonForecastPeriod[] = [];
+
+  for (const period of periods) {
+    const previous = current[current.length - 1];
+    if (previous && Date.parse(period.periodStart) !== Date.parse(previous.periodEnd)) {
+      runs.push(current);
+      current = [];
+    }
+    current.push(period);
+  }
+  if (current.length > 0) runs.push(current);
+
+  return runs;
+}
+
+/** Mean forecast over the periods that have not ended yet */
+export function remainingAverage(periods: CarbonForecastPeriod[], now = new Date()): number | null {
+  const remaining = periods.filter((p) => Date.parse(p.periodEnd) > now.getTime());
+  if (remaining.length === 0) return null;
+  return round1(remaining.reduce((sum, p) => sum + p.forecast, 0) / remaining.length);
+}
+
+/**
+ * Finds the contiguous windows of the given length with the lowest average
+ * forecast intensity. Windows are picked best first and never overlap; ties
+ * go to the earlier window.
+ */
+export function findGreenWindows(
+  periods: CarbonForecastPeriod[],
+  options: GreenWindowOptions
+): GreenWindow[] {
+  const now = (options.now ?? new Date()).getTime();
+  const size = Math.round((options.windowHours * 60 * 60 * 1000) / HALF_HOUR_MS);
+
+  const upcoming = periods
+    .filter((p) => Date.parse(p.periodEnd) > now)
+    .sort((a, b) => Date.parse(a.periodStart) - Date.parse(b.periodStart));
+
+  const candidates: Candidate[] = [];
+  let offset = 0;
+  for (const run of contiguousRuns(upcoming)) {
+    for (let i = 0; i + size <= run.length; i++) {
+      const window = run.slice(i, i + size);
+      const average = window.reduce((sum, p) => sum + p.forecast, 0) / size;
+      candidates.push({ first: offset + i, periods: window, average });
+    }
+    offset += run.length;
+  }
+
+  candidates.sort((a, b) => a.average - b.average || a.first - b.first);
+
+  const picked: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (picked.length >= options.count) break;
+
+    const overlaps = picked.some(
+      (p) => candidate.first < p.first + size && p.first < candidate.first + size
+    );
+    if (!overlaps) picked.push(candidate);
+  }
+
+  return picked.map((candidate, i) => ({
+    rank: i + 1,
+    start: candidate.periods[0].periodStart,
+    end: candidate.periods[candidate.periods.length - 1].periodEnd,
+    averageForecast: round1(candidate.average),
+    peakForecast: Math.max(...candidate.periods.map((p) => p.forecast)),
+    index: worstIndex(candidate.periods),
+  }));
+}
@@ -0,0 +1,73 @@
+// ============================================================================
+// Health Checks
+// ============================================================================
+
+/** State of one component, as reported on /healthz and /readyz */
+export interface HealthCheckResult {
+  /** False when the component is degraded and needs attention (fails /healthz) */
+  healthy: boolean;
+  /** False while the component cannot do its work (fails /readyz) */
+  ready: boolean;
+  /** Shown in the response body */
+  details: Record<string, unknown>;
+}
+
+export type HealthCheck = () => HealthCheckResult;
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  healthy: boolean;
+  ready: boolean;
+  checks: Record<string, { healthy: boolean; ready: boolean } & Record<string, unknown>>;
+}
+
+/**
+ * The health checks of one process. Components register a check when they
+ * start and remove it when they stop; the process is healthy or ready only if
+ * every check is.
+ */
+export class HealthMonitor {
+  private checks = new Map<string, HealthCheck>();
+
+  /** Adds or replaces the check under the name; returns a function removing it */
+  register(name: string, check: HealthCheck): () => void {
+    this.checks.set(name, check);
+    return () => {
+      if (this.checks.get(name) === check) {
+        this.checks.delete(name);
+      }
+    };
+  }
+
+  report(): HealthReport {
+    const checks: HealthReport['checks'] = {};
+    let healthy = true;
+    let ready = true;
+
+    for (const [name, check] of this.checks) {
+      let result: HealthCheckResult;
+      try {
+        result = check();
+      } catch (error) {
+        result = { healthy: false, ready: false, details: { error: (error as Error).message } };
+      }
+
+      healthy &&= result.healthy;
+      ready &&= result.ready;
+      checks[name] = { healthy: result.healthy, ready: result.ready, ...result.details };
+    }
+
+    return { status: healthy ? 'ok' : 'degraded', healthy, ready, checks };
+  }
+}
+
+/** Monitor shared by everything in the process */
+export const health = new HealthMonitor();
+
+/**
+ * How long a component may stay down before it is reported degraded (e.g., a
+ * consumer waiting to resubscribe), from HEALTH_GRACE_PERIOD_MS.
+ */
+export function getHealthGracePeriod(): number {
+  return parseInt(process.env.HEALTH_GRACE_PERIOD_MS || '60000', 10);
+}
@@ -0,0 +1,58 @@
+import { createServer, Server, ServerResponse } from 'http';
+import { createLogger } from './logger';
+import { registry } from './metrics';
+import { health } from './health';
+
+// ============================================================================
+// Operational Endpoints
+// ============================================================================
+
+function sendHealth(res: ServerResponse, probe: 'healthy' | 'ready'): void {
+  const report = health.report();
+  res.writeHead(report[probe] ? 200 : 503, { 'Content-Type': 'application/json' });
+  res.end(`${JSON.stringify(report, null, 2)}\n`);
+}
+
+/**
+ * Serves the process's operational endpoints:
+ *
+ * - GET /metrics: the metrics registry, in the Prometheus text format
+ * - GET /healthz: 200 unless a health check reports the process degraded
+ * - GET /readyz: 200 once every check is ready to do its work
+ *
+ * Both health endpoints return the full report, 503 on failure. A port that
+ * cannot be bound (e.g., a second instance on the same host) is logged and the
+ * process carries on without them. Port 0 disables the server and returns null.
+ */
+export function startHttpServer(port: number, logPrefix: string): Server | null {
+  if (port <= 0) return null;
+  const log = createLogger(logPrefix);
+
+  const server = createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (req.method === 'GET' && path === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(registry.render());
+    } else if (req.method === 'GET' && path === '/healthz') {
+      sendHealth(res, 'healthy');
+    } else if (req.method === 'GET' && path === '/readyz') {
+      sendHealth(res, 'ready');
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+    }
+  });
+
+  server.on('error', (err: Error) => {
+    log.error('HTTP endpoints unavailable', { error: err });
+  });
+
+  server.listen(port, () => {
+    log.info(`Metrics and health checks on http://localhost:${port} (/metrics, /healthz, /readyz)`);
+  });
+
+  // Never keeps the process alive on its own
+  server.unref();
+  return server;
+}
@@ -0,0 +1,191 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './files';
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+/**
+ * Records which envelope IDs have been processed. Implementations decide where
+ * the IDs live; entries expire after the store's TTL.
+ */
+export interface ProcessedIdStore {
+  has(id: string): Promise<boolean>;
+  add(id: string): Promise<void>;
+  size(): number;
+}
+
+export interface IdStoreOptions {
+  /** How long an ID is remembered in ms */
+  ttl: number;
+  /** Maximum IDs kept; the oldest are evicted first */
+  maxEntries: number;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Bounded, TTL-expiring ID set. Lost on restart, which is acceptable when
+ * redeliveries happen shortly after a reconnect.
+ */
+export class MemoryIdStore implements ProcessedIdStore {
+  protected ttl: number;
+  protected maxEntries: number;
+
+  /** ID -> expiry time (epoch ms), in insertion order */
+  protected entries = new Map<string, number>();
+
+  constructor(options: IdStoreOptions) {
+    this.ttl = options.ttl;
+    this.maxEntries = options.maxEntries;
+  }
+
+  async has(id: string): Promise<boolean> {
+    const expiresAt = this.entries.get(id);
+    if (expiresAt === undefined) return false;
+
+    if (expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      return false;
+    }
+    return true;
+  }
+
+  async add(id: string): Promise<void> {
+    // Re-inserting moves the ID to the end of the eviction order
+    this.entries.delete(id);
+    this.entries.set(id, Date.now() + this.ttl);
+    this.prune();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  protected prune(): void {
+    const now = Date.now();
+
+    for (const [id, expiresAt] of this.entries) {
+      if (expiresAt > now && this.entries.size <= this.maxEntries) break;
+      this.entries.delete(id);
+    }
+  }
+}
+
+// ============================================================================
+// File-Backed Store
+// ============================================================================
+
+/**
+ * In-memory store that snapshots to a JSON file after every write, so
+ * processed IDs survive a restart. Each consumer process needs its own file.
+ */
+export class FileIdStore extends MemoryIdStore {
+  private path: string;
+
+  constructor(path: string, options: IdStoreOptions) {
+    super(options);
+    this.path = path;
+    this.load();
+  }
+
+  async add(id: string): Promise<void> {
+    await super.add(id);
+    this.save();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) return;
+
+    const saved = JSON.parse(readFileSync(this.path, 'utf-8')) as Array<[string, number]>;
+    for (const [id, expiresAt] of saved) {
+      this.entries.set(id, expiresAt);
+    }
+    this.prune();
+  }
+
+  private save(): void {
+    writeFileAtomic(this.path, JSON.stringify([...this.entries]));
+  }
+}
+
+/**
+ * Creates the store configured by the environment: file-backed when
+ * IDEMPOTENCY_STORE_DIR is set, in-memory otherwise.
+ */
+export function createIdStore(name: string): ProcessedIdStore {
+  const options: IdStoreOptions = {
+    ttl: parseInt(process.env.IDEMPOTENCY_TTL_MS || '3600000', 10),
+    maxEntries: parseInt(process.env.IDEMPOTENCY_MAX_ENTRIES || '10000', 10),
+  };
+
+  const dir = process.env.IDEMPOTENCY_STORE_DIR;
+  return dir ? new FileIdStore(join(dir, `${name}.json`), options) : new MemoryIdStore(options);
+}
+
+// ============================================================================
+// Deduplicator
+// ============================================================================
+
+export interface IdempotencyStats {
+  /** Messages skipped because their ID was already processed */
+  hits: number;
+  /** Messages processed for the first time */
+  misses: number;
+  /** IDs currently remembered */
+  size: number;
+}
+
+/**
+ * Runs message processing at most once per envelope ID.
+ *
+ * An ID is only recorded after processing succeeds, so a failed message is
+ * still retried. While a message is being processed its ID is reserved, so a
+ * copy delivered alongside it in the same prefetch batch is skipped too.
+ * Callers ack the message whether or not it was a duplicate.
+ */
+export class Deduplicator {
+  private store: ProcessedIdStore;
+  // IDs being processed; checked before the first await so concurrent copies see them
+  private inFlight = new Set<string>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(store: ProcessedIdStore) {
+    this.store = store;
+  }
+
+  /**
+   * Calls `handler` unless `id` has already been processed.
+   * Returns false if the message was a duplicate and was skipped.
+   */
+  async process(id: string, handler: () => void | Promise<void>): Promise<boolean> {
+    if (this.inFlight.has(id)) {
+      this.hits++;
+      return false;
+    }
+
+    this.inFlight.add(id);
+    try {
+      if (await this.store.has(id)) {
+        this.hits++;
+        return false;
+      }
+
+      this.misses++;
+      await handler();
+      await this.store.add(id);
+      return true;
+    } finally {
+      // Released on failure too, so the retried message is processed
+      this.inFlight.delete(id);
+    }
+  }
+
+  getStats(): IdempotencyStats {
+    return { hits: this.hits, misses: this.misses, size: this.store.size() };
+  }
+}
@@ -0,0 +1,500 @@
+import { ConnectionManager, getConnectionManager, Unsubscribe } from './connection';
+import { setupTopology } from './topology';
+import { Publisher, PublishOptions } from './publisher';
+import { MessageEnvelope, MessageSource, SourceHealthStatus, createSourceHealthMessage } from './messages';
+import { METRICS } from './metrics';
+import { Logger, createLogger } from './logger';
+import { withSpan } from './tracing';
+import { health, HealthCheckResult } from './health';
+
+// ============================================================================
+// HTTP Errors
+// ============================================================================
+
+/** A non-2xx response from an upstream API */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when an upstream API rejects a call for exceeding its rate limit.
+ * The ingester waits before polling again instead of backing off.
+ */
+export class RateLimitError extends HttpError {
+  /** How long the API asked us to wait in ms, if it said */
+  readonly retryAfter: number | null;
+
+  constructor(retryAfter: number | null = null) {
+    super(429, 'Rate limit exceeded');
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** Parses a Retry-After header (seconds or HTTP date) into ms */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * GETs a JSON document, raising RateLimitError on 429 and HttpError on any
+ * other non-2xx response.
+ */
+export async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+
+  if (response.status === 429) {
+    throw new RateLimitError(parseRetryAfter(response.headers.get('retry-after')));
+  }
+
+  if (!response.ok) {
+    throw new HttpError(response.status, response.statusText);
+  }
+
+  return (await response.json()) as T;
+}
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * A call budget shared by several sources, spacing calls evenly so an API's
+ * per-minute limit holds however many sources poll it.
+ */
+export class RateLimiter {
+  private spacing: number;
+  private nextCallAt = 0;
+
+  constructor(callsPerMinute: number) {
+    this.spacing = 60000 / callsPerMinute;
+  }
+
+  /** Waits for the next free slot */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextCallAt);
+    this.nextCallAt = slot + this.spacing;
+    await sleep(slot - now);
+  }
+
+  /** Holds back every call for the given time */
+  pause(ms: number): void {
+    this.nextCallAt = Math.max(this.nextCallAt, Date.now() + ms);
+  }
+}
+
+// ============================================================================
+// Backoff
+// ============================================================================
+
+export interface BackoffPolicy {
+  /** Delay after the first failure in ms */
+  baseDelay: number;
+  /** Cap on the delay in ms, before jitter */
+  maxDelay: number;
+  /** Random extra delay as a fraction of the delay (e.g., 0.2 for up to +20%) */
+  jitter: number;
+}
+
+/** Delay before the next poll after the given number of consecutive failures */
+export function calculateBackoff(failures: number, policy: BackoffPolicy): number {
+  const delay = Math.min(policy.baseDelay * Math.pow(2, failures - 1), policy.maxDelay);
+  return Math.round(delay + Math.random() * delay * policy.jitter);
+}
+
+// ============================================================================
+// Polling Sources
+// ============================================================================
+
+/** One upstream feed polled on its own schedule */
+export interface PollingSource<T> {
+  /** Name used in logs and metrics (e.g., "intensity") */
+  name: string;
+  /** Delay between successful polls in ms */
+  interval: number;
+  /** Fetches the latest readings; each reading is published as one message */
+  fetch(): Promise<T[]>;
+  /** Builds the envelope for one reading */
+  createMessage(data: T): MessageEnvelope<T>;
+  /** Routing key, fixed or per reading */
+  routingKey: string | ((data: T) => string);
+  /** Additional routing keys every message is CC'd to */
+  cc?: string[];
+  /**
+   * Identifies a reading's content. A reading whose fingerprint matches the
+   * last one published under the same routing key is suppressed until the
+   * heartbeat interval has passed. Without it every reading is published.
+   */
+  fingerprint?: (data: T) => string;
+  /** One-line summary of a successful poll for the log */
+  summarize?: (readings: T[]) => string;
+}
+
+/** Counters for one source since the ingester started */
+export interface SourceMetrics {
+  polls: number;
+  failures: number;
+  /** Failures since the last successful poll */
+  consecutiveFailures: number;
+  rateLimited: number;
+  published: number;
+  /** Readings not published because their content had not changed */
+  suppressed: number;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+}
+
+/** A started source, whatever type of reading it produces */
+interface Runner {
+  readonly name: string;
+  readonly metrics: SourceMetrics;
+  start(): void;
+  stop(): void;
+  checkHealth(): HealthCheckResult;
+}
+
+interface RunnerContext {
+  source: MessageSource;
+  log: Logger;
+  publisher: Publisher;
+  backoff: BackoffPolicy;
+  rateLimitDelay: number;
+  rateLimiter: RateLimiter | null;
+  heartbeatInterval: number;
+  failureThreshold: number;
+}
+
+/** The last reading published under a routing key */
+interface LastPublished {
+  fingerprint: string;
+  publishedAt: number;
+}
+
+/**
+ * Runs one source: a single timer drives both regular polls and retries, so
+ * stopping always cancels whatever is scheduled next.
+ */
+class SourceRunner<T> implements Runner {
+  private source: PollingSource<T>;
+  private context: RunnerContext;
+  private log: Logger;
+  private timer: NodeJS.Timeout | null = null;
+  private isStopped = true;
+  private lastPublished = new Map<string, LastPublished>();
+
+  readonly metrics: SourceMetrics = {
+    polls: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    rateLimited: 0,
+    published: 0,
+    suppressed: 0,
+    lastSuccessAt: null,
+    lastError: null,
+  };
+
+  constructor(source: PollingSource<T>, context: RunnerContext) {
+    this.source = source;
+    this.context = context;
+    this.log = context.log.child({ source: source.name });
+  }
+
+  get name(): string {
+    return this.source.name;
+  }
+
+  start(): void {
+    this.isStopped = false;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.isStopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Degraded during a reported failure streak. An upstream outage never makes
+   * the process unready; polling carries on either way.
+   */
+  checkHealth(): HealthCheckResult {
+    const { consecutiveFailures, lastSuccessAt, lastError, polls } = this.metrics;
+    return {
+      healthy: !this.isReportedStreak(consecutiveFailures),
+      ready: true,
+      details: { polls, consecutiveFailures, lastSuccessAt, lastError },
+    };
+  }
+
+  private schedule(delay: number): void {
+    if (this.isStopped) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Each poll starts a trace; its fetch and publishes are child spans
+      withSpan(`poll ${this.source.name}`, { parent: null }, () => this.poll());
+    }, delay);
+  }
+
+  private async poll(): Promise<void> {
+    const { backoff, rateLimitDelay, rateLimiter } = this.context;
+    let nextDelay = this.source.interval;
+
+    this.metrics.polls++;
+    METRICS.polls.inc({ source: this.source.name });
+
+    try {
+      await rateLimiter?.acquire();
+      if (this.isStopped) return;
+
+      // Timed without the rate limiter wait
+      const endTimer = METRICS.fetchDuration.startTimer({ source: this.source.name });
+      const readings = await withSpan(
+        `fetch ${this.source.name}`,
+        { kind: 'client', attributes: { 'feedhub.source': this.source.name } },
+        () => this.source.fetch()
+      ).finally(endTimer);
+      await this.publishAll(readings);
+
+      if (this.source.summarize && readings.length > 0) {
+        this.log.info(this.source.summarize(readings));
+      }
+
+      const endedStreak = this.metrics.consecutiveFailures;
+      this.metrics.consecutiveFailures = 0;
+      this.metrics.lastSuccessAt = new Date().toISOString();
+
+      if (this.isReportedStreak(endedStreak)) {
+        await this.publishHealth('recovered', endedStreak);
+      }
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        nextDelay = error.retryAfter ?? rateLimitDelay;
+        this.metrics.rateLimited++;
+        METRICS.fetchFailures.inc({ source: this.source.name, reason: 'rate_limited' });
+        rateLimiter?.pause(nextDelay);
+        this.log.warn(`${this.source.name} rate limited, waiting ${nextDelay}ms`);
+      } else {
+        this.metrics.failures++;
+        this.metrics.consecutiveFailures++;
+        this.metrics.lastError = (error as Error).message;
+        METRICS.fetchFailures.inc({ source: this.source.name, reason: 'error' });
+
+        nextDelay = calculateBackoff(this.metrics.consecutiveFailures, backoff);
+        this.log.error(`${this.source.name} fetch failed (attempt ${this.metrics.consecutiveFailures})`, {
+          error,
+        });
+        this.log.info(`Next ${this.source.name} retry in ${nextDelay}ms`);
+
+        if (this.isReportedStreak(this.metrics.consecutiveFailures)) {
+          await this.publishHealth('failing', this.metrics.consecutiveFailures);
+        }
+      }
+    }
+
+    this.schedule(nextDelay);
+  }
+
+  /** Streaks of at least the failure threshold are published; 0 disables */
+  private isReportedStreak(failures: number): boolean {
+    const { failureThreshold } = this.context;
+    return failureThreshold > 0 && failures >= failureThreshold;
+  }
+
+  /** Publishes the failure streak so consumers need not infer it from silence */
+  private async publishHealth(status: SourceHealthStatus, failures: number): Promise<void> {
+    const { source, publisher } = this.context;
+    const message = createSourceHealthMessage(source, {
+      name: this.source.name,
+      status,
+      consecutiveFailures: failures,
+      lastError: this.metrics.lastError,
+      lastSuccessAt: this.metrics.lastSuccessAt,
+    });
+
+    try {
+      await publisher.publish(message, message.type);
+    } catch (error) {
+      this.log.error(`Failed to publish ${message.type}`, { error });
+    }
+  }
+
+  private async publishAll(readings: T[]): Promise<void> {
+    const { publisher } = this.context;
+    const { routingKey, cc, fingerprint } = this.source;
+    const options: PublishOptions = cc ? { cc } : {};
+
+    for (const data of readings) {
+      const key = typeof routingKey === 'function' ? routingKey(data) : routingKey;
+      const print = fingerprint?.(data);
+
+      if (print !== undefined && this.isUnchanged(key, print)) {
+        this.metrics.suppressed++;
+        METRICS.suppressed.inc({ source: this.source.name });
+        this.log.info(`${this.source.name} unchanged, suppressed (${this.metrics.suppressed} so far)`, {
+          routingKey: key,
+        });
+        continue;
+      }
+
+      await publisher.publish(this.source.createMessage(data), key, options);
+      this.metrics.published++;
+
+      if (print !== undefined) {
+        this.lastPublished.set(key, { fingerprint: print, publishedAt: Date.now() });
+      }
+    }
+  }
+
+  /**
+   * True if the reading matches the last one published under the key and the
+   * heartbeat is not yet due. A heartbeat interval of 0 never republishes.
+   */
+  private isUnchanged(key: string, print: string): boolean {
+    const last = this.lastPublished.get(key);
+    if (!last || last.fingerprint !== print) return false;
+
+    const { heartbeatInterval } = this.context;
+    return heartbeatInterval <= 0 || Date.now() - last.publishedAt < heartbeatInterval;
+  }
+}
+
+// ============================================================================
+// Ingester
+// ============================================================================
+
+export interface IngesterOptions {
+  /** Publishing service, passed on to the publisher */
+  source: MessageSource;
+  /** Component name in log lines (e.g., "Carbon") */
+  logPrefix: string;
+  manager?: ConnectionManager;
+  backoff?: Partial<BackoffPolicy>;
+  /** Wait after a 429 that carries no Retry-After header, in ms */
+  rateLimitDelay?: number;
+  /** Call budget shared by all sources, if the API has one */
+  rateLimiter?: RateLimiter;
+  /**
+   * Republish an unchanged reading once this long has passed since it was
+   * last published, in ms, so consumers can tell a quiet feed from a dead
+   * one. 0 disables heartbeats.
+   */
+  heartbeatInterval?: number;
+  /**
+   * Once a source fails this many times in a row, every further failure is
+   * published as system.health.source-failing, and the next success as
+   * system.health.source-recovered. 0 disables. Defaults to
+   * HEALTH_FAILURE_THRESHOLD or 3.
+   */
+  failureThreshold?: number;
+}
+
+/**
+ * Polls a set of sources and publishes what they return. Each source runs on
+ * its own schedule and backs off independently when its fetch fails. While
+ * started, each source is reported on /healthz as `source:<name>`.
+ */
+export class Ingester {
+  private log: Logger;
+  private manager: ConnectionManager;
+  private publisher: Publisher;
+  private runners: Runner[] = [];
+  private context: RunnerContext;
+  private offHealth: Unsubscribe[] = [];
+
+  constructor(options: IngesterOptions) {
+    this.log = createLogger(options.logPrefix);
+    this.manager = options.manager ?? getConnectionManager();
+    this.publisher = new Publisher({
+      source: options.source,
+      logPrefix: options.logPrefix,
+      manager: this.manager,
+    });
+
+    this.context = {
+      source: options.source,
+      log: this.log,
+      publisher: this.publisher,
+      backoff: {
+        baseDelay: options.backoff?.baseDelay ?? 5000,
+        maxDelay: options.backoff?.maxDelay ?? 300000,
+        jitter: options.backoff?.jitter ?? 0.2,
+      },
+      rateLimitDelay: options.rateLimitDelay ?? 60000,
+      rateLimiter: options.rateLimiter ?? null,
+      heartbeatInterval: options.heartbeatInterval ?? 0,
+      failureThreshold:
+        options.failureThreshold ?? parseInt(process.env.HEALTH_FAILURE_THRESHOLD || '3', 10),
+    };
+  }
+
+  addSource<T>(source: PollingSource<T>): void {
+    this.runners.push(new SourceRunner(source, this.context));
+  }
+
+  /**
+   * Ensures topology exists, publishes anything left in the outbox and starts
+   * polling every source immediately.
+   */
+  async start(): Promise<void> {
+    const channel = await this.manager.getChannel();
+    await setupTopology(channel);
+
+    await this.publisher.start();
+
+    this.log.info(`Connected to RabbitMQ, polling ${this.runners.length} source(s)...`);
+
+    for (const runner of this.runners) {
+      runner.start();
+      this.offHealth.push(health.register(`source:${runner.name}`, () => runner.checkHealth()));
+    }
+  }
+
+  /** Cancels all scheduled polls and stops the publisher */
+  stop(): void {
+    for (const runner of this.runners) {
+      runner.stop();
+    }
+    this.offHealth.forEach((off) => off());
+    this.offHealth = [];
+    this.publisher.stop();
+  }
+
+  /** Metrics per source name */
+  getMetrics(): Record<string, SourceMetrics> {
+    return Object.fromEntries(this.runners.map((runner) => [runner.name, { ...runner.metrics }]));
+  }
+
+  /** Logs a line of metrics per source */
+  logMetrics(): void {
+    for (const [name, m] of Object.entries(this.getMetrics())) {
+      this.log.info(
+        `${name}: ${m.polls} polls, ${m.published} published, ` +
+          `${m.suppressed} suppressed, ${m.failures} failed, ${m.rateLimited} rate limited`,
+        { source: name }
+      );
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs';
+
+// ============================================================================
+// Weather Locations
+// ============================================================================
+
+/** A location to poll, given either as a city query or as coordinates */
+export interface LocationConfig {
+  /** City query understood by OpenWeather (e.g., "London,UK") */
+  city?: string;
+  lat?: number;
+  lon?: number;
+  /**
+   * Location ID to publish under, overriding the one derived from the city
+   * and country the API reports (e.g., "gb.london")
+   */
+  id?: string;
+}
+
+const COORDINATES_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/** A location ID: "<country>.<city-slug>", two routing key segments */
+export const LOCATION_ID_PATTERN = /^[a-z0-9-]+\.[a-z0-9-]+$/;
+
+/**
+ * Parses a location written as a city query ("London,UK") or as
+ * coordinates ("53.48,-2.24").
+ */
+export function parseLocation(entry: string): LocationConfig {
+  const match = COORDINATES_PATTERN.exec(entry);
+  if (match) {
+    return checkLocation({ lat: parseFloat(match[1]), lon: parseFloat(match[2]) }, entry);
+  }
+  return checkLocation({ city: entry.trim() }, entry);
+}
+
+function checkLocation(location: LocationConfig, source: string): LocationConfig {
+  const hasCity = typeof location.city === 'string' && location.city.length > 0;
+  const hasCoordinates = typeof location.lat === 'number' && typeof location.lon === 'number';
+
+  if (hasCity === hasCoordinates) {
+    throw new Error(`Weather location ${source} needs either a city or lat/lon`);
+  }
+  if (hasCoordinates && (Math.abs(location.lat!) > 90 || Math.abs(location.lon!) > 180)) {
+    throw new Error(`Weather location ${source} has coordinates out of range`);
+  }
+  if (location.id !== undefined && !LOCATION_ID_PATTERN.test(location.id)) {
+    throw new Error(`Weather location ${source} has an invalid id (expected "<country>.<city-slug>")`);
+  }
+  return location;
+}
+
+function readLocationsFile(path: string): LocationConfig[] {
+  const entries: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${path} must contain a JSON array of locations`);
+  }
+
+  return entries.map((entry) =>
+    typeof entry === 'string'
+      ? parseLocation(entry)
+      : checkLocation(entry as LocationConfig, JSON.stringify(entry))
+  );
+}
+
+/**
+ * Reads the locations to poll, from the first of:
+ * - WEATHER_LOCATIONS_FILE: JSON array of strings or { city | lat, lon, id? } objects
+ * - WEATHER_LOCATIONS: semicolon-separated, e.g. "London,UK;Manchester,UK;55.95,-3.19"
+ * - WEATHER_CITY: a single city (default "London,UK")
+ */
+export function loadWeatherLocations(): LocationConfig[] {
+  if (process.env.WEATHER_LOCATIONS_FILE) {
+    return readLocationsFile(process.env.WEATHER_LOCATIONS_FILE);
+  }
+
+  if (process.env.WEATHER_LOCATIONS) {
+    return process.env.WEATHER_LOCATIONS
+      .split(';')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map(parseLocation);
+  }
+
+  return [parseLocation(process.env.WEATHER_CITY || 'London,UK')];
+}
+
+/** Human-readable form of a configured location for log lines */
+export function describeLocation(location: LocationConfig): string {
+  return location.city ?? `${location.lat},${location.lon}`;
+}
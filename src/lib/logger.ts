@@ -0,0 +1,162 @@
+import { MessageEnvelope } from './messages';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** text: "[Component] message key=value", json: one object per line */
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/** Structured fields attached to a log line */
+export type LogFields = Record<string, unknown>;
+
+interface LoggerConfig {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+function parseOption<T extends string>(name: string, value: string, allowed: readonly T[]): T {
+  const normalized = value.trim().toLowerCase();
+  if (!(allowed as readonly string[]).includes(normalized)) {
+    throw new Error(`Unknown ${name} "${value}" (expected ${allowed.join(', ')})`);
+  }
+  return normalized as T;
+}
+
+let config: LoggerConfig | null = null;
+
+/**
+ * Reads LOG_LEVEL and LOG_FORMAT on first use rather than at import, so the
+ * entry point's dotenv has been loaded by then.
+ */
+function getConfig(): LoggerConfig {
+  if (!config) {
+    config = {
+      level: parseOption('log level', process.env.LOG_LEVEL || 'info', LOG_LEVELS),
+      format: parseOption('log format', process.env.LOG_FORMAT || 'text', LOG_FORMATS),
+    };
+  }
+  return config;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/** Errors are logged by their message on a text line, which stays one line */
+function toLoggable(value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+/** JSON.stringify drops an error's own properties, so it is copied out with its stack */
+function toJsonValue(value: unknown): unknown {
+  return value instanceof Error ? { message: value.message, stack: value.stack } : value;
+}
+
+function formatTextValue(value: unknown): string {
+  const loggable = toLoggable(value);
+  if (typeof loggable === 'string') {
+    return /^[^\s"=]+$/.test(loggable) ? loggable : JSON.stringify(loggable);
+  }
+  return JSON.stringify(loggable) ?? String(loggable);
+}
+
+function formatText(component: string, message: string, fields: LogFields): string {
+  const pairs = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${formatTextValue(value)}`);
+  return [`[${component}] ${message}`, ...pairs].join(' ');
+}
+
+function formatJson(level: LogLevel, component: string, message: string, fields: LogFields): string {
+  const entry: LogFields = { time: new Date().toISOString(), level, component, msg: message };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = toJsonValue(value);
+  }
+  return JSON.stringify(entry);
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+/**
+ * Fields identifying a message. The envelope ID doubles as the correlation ID
+ * across every service that handles the message.
+ */
+export function messageFields(
+  envelope: Pick<MessageEnvelope, 'id' | 'type' | 'source'>,
+  routingKey?: string
+): LogFields {
+  return {
+    messageId: envelope.id,
+    messageType: envelope.type,
+    messageSource: envelope.source,
+    routingKey,
+  };
+}
+
+/**
+ * Writes leveled log lines for one component. Lines below LOG_LEVEL are
+ * dropped; warnings and errors go to stderr, the rest to stdout.
+ */
+export class Logger {
+  readonly component: string;
+  private context: LogFields;
+
+  constructor(component: string, context: LogFields = {}) {
+    this.component = component;
+    this.context = context;
+  }
+
+  /** A logger adding the given fields to every line */
+  child(context: LogFields): Logger {
+    return new Logger(this.component, { ...this.context, ...context });
+  }
+
+  /** A logger for lines about one message, see messageFields */
+  forMessage(envelope: Pick<MessageEnvelope, 'id' | 'type' | 'source'>, routingKey?: string): Logger {
+    return this.child(messageFields(envelope, routingKey));
+  }
+
+  debug(message: string, fields: LogFields = {}): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields: LogFields = {}): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields: LogFields = {}): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields: LogFields = {}): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields): void {
+    const { level: minLevel, format } = getConfig();
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+    const all = { ...this.context, ...fields };
+    const line =
+      format === 'json' ? formatJson(level, this.component, message, all) : formatText(this.component, message, all);
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+export function createLogger(component: string, context: LogFields = {}): Logger {
+  return new Logger(component, context);
+}
@@ -17,6 +17,11 @@ export interface MessageEnvelope<T = unknown> {
   type: string;
   /** ISO 8601 timestamp when message was created */
   timestamp: string;
+  /**
+   * Version of the payload schema for this message type. Envelopes published
+   * before versioning was introduced omit it and are treated as version 1.
+   */
+  schemaVersion?: number;
   /** Payload specific to message type */
   data: T;
 }
@@ -26,12 +31,15 @@ export interface MessageEnvelope<T = unknown> {
 // ============================================================================
 
 /** Carbon intensity index levels */
-export type CarbonIntensityIndex =
-  | 'very low'
-  | 'low'
-  | 'moderate'
-  | 'high'
-  | 'very high';
+export const CARBON_INTENSITY_INDEXES = [
+  'very low',
+  'low',
+  'moderate',
+  'high',
+  'very high',
+] as const;
+
+export type CarbonIntensityIndex = (typeof CARBON_INTENSITY_INDEXES)[number];
 
 /** Data payload for carbon intensity messages (routing key: feed.carbon.intensity) */
 export interface CarbonIntensityData {
@@ -55,16 +63,19 @@ export type CarbonIntensityMessage = MessageEnvelope<CarbonIntensityData>;
 // ============================================================================
 
 /** Fuel types used in UK generation mix */
-export type FuelType =
-  | 'gas'
-  | 'coal'
-  | 'nuclear'
-  | 'wind'
-  | 'solar'
-  | 'hydro'
-  | 'imports'
-  | 'biomass'
-  | 'other';
+export const FUEL_TYPES = [
+  'gas',
+  'coal',
+  'nuclear',
+  'wind',
+  'solar',
+  'hydro',
+  'imports',
+  'biomass',
+  'other',
+] as const;
+
+export type FuelType = (typeof FUEL_TYPES)[number];
 
 /** A single fuel source contribution to the generation mix */
 export interface GenerationMixEntry {
@@ -76,7 +87,9 @@ export interface GenerationMixEntry {
 
 /** Data payload for carbon generation messages (routing key: feed.carbon.generation) */
 export interface CarbonGenerationData {
-  /** Timestamp of the generation mix snapshot (ISO 8601) */
+  /** Start of the half-hour settlement period the mix covers (ISO 8601) */
+  periodStart: string;
+  /** When the mix was fetched; the period start for backfilled history (ISO 8601) */
   timestamp: string;
   /** Array of fuel contributions */
   mix: GenerationMixEntry[];
@@ -85,6 +98,72 @@ export interface CarbonGenerationData {
 /** Full carbon generation message with envelope */
 export type CarbonGenerationMessage = MessageEnvelope<CarbonGenerationData>;
 
+// ============================================================================
+// Regional Carbon Intensity Message
+// ============================================================================
+
+/**
+ * Data payload for regional carbon intensity messages
+ * (routing key: feed.carbon.regional.<regionId>)
+ */
+export interface RegionalCarbonIntensityData {
+  /** Carbon Intensity API region ID (1-17) */
+  regionId: number;
+  /** Distribution network operator name (e.g., "UK Power Networks") */
+  dnoRegion: string;
+  /** Short region name (e.g., "London") */
+  shortName: string;
+  /** Principal postcode areas covered by the region (e.g., ["E", "EC", "N"]) */
+  postcodeAreas: string[];
+  /** Period start time (ISO 8601) */
+  periodStart: string;
+  /** Period end time (ISO 8601) */
+  periodEnd: string;
+  /** Forecast carbon intensity in gCO2/kWh */
+  forecast: number;
+  /** Human-readable intensity index */
+  index: CarbonIntensityIndex;
+  /** Regional generation mix */
+  mix: GenerationMixEntry[];
+}
+
+/** Full regional carbon intensity message with envelope */
+export type RegionalCarbonIntensityMessage = MessageEnvelope<RegionalCarbonIntensityData>;
+
+// ============================================================================
+// Carbon Forecast Message
+// ============================================================================
+
+/** Forward-looking forecast horizons offered by the Carbon Intensity API */
+export const CARBON_FORECAST_HORIZONS = ['fw24h', 'fw48h'] as const;
+
+export type CarbonForecastHorizon = (typeof CARBON_FORECAST_HORIZONS)[number];
+
+/** Forecast for a single half-hour settlement period */
+export interface CarbonForecastPeriod {
+  /** Period start time (ISO 8601) */
+  periodStart: string;
+  /** Period end time (ISO 8601) */
+  periodEnd: string;
+  /** Forecast carbon intensity in gCO2/kWh */
+  forecast: number;
+  /** Human-readable intensity index */
+  index: CarbonIntensityIndex;
+}
+
+/** Data payload for carbon forecast messages (routing key: feed.carbon.forecast) */
+export interface CarbonForecastData {
+  /** Forecast horizon the periods were requested for */
+  horizon: CarbonForecastHorizon;
+  /** Time the forecast was fetched (ISO 8601) */
+  fetchedAt: string;
+  /** Half-hour periods in chronological order */
+  periods: CarbonForecastPeriod[];
+}
+
+/** Full carbon forecast message with envelope */
+export type CarbonForecastMessage = MessageEnvelope<CarbonForecastData>;
+
 // ============================================================================
 // Weather Current Message
 // ============================================================================
@@ -97,6 +176,11 @@ export interface Coordinates {
 
 /** Location information */
 export interface WeatherLocation {
+  /**
+   * Stable location ID of the form "<country>.<city-slug>" (e.g., "gb.london"),
+   * also used as the suffix of per-location routing keys
+   */
+  id: string;
   city: string;
   country: string;
   coordinates: Coordinates;
@@ -140,17 +224,302 @@ export interface WeatherCurrentData {
   condition: WeatherCondition;
 }
 
+/**
+ * Derives a location ID from a country code and city name,
+ * e.g. ("GB", "Newcastle upon Tyne") -> "gb.newcastle-upon-tyne".
+ */
+export function createLocationId(country: string, city: string): string {
+  const slug = (value: string) =>
+    value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+
+  return `${slug(country) || 'unknown'}.${slug(city) || 'unknown'}`;
+}
+
 /** Full weather current message with envelope */
 export type WeatherCurrentMessage = MessageEnvelope<WeatherCurrentData>;
 
+// ============================================================================
+// Weather Forecast Message
+// ============================================================================
+
+/** Forecast conditions at a single point in time */
+export interface WeatherForecastEntry {
+  /** Forecast time (ISO 8601) */
+  timestamp: string;
+  /** Temperature in Celsius */
+  temperature: number;
+  wind: Wind;
+  /** Cloud cover percentage (0-100) */
+  cloudCover: number;
+  condition: WeatherCondition;
+}
+
+/** Data payload for weather forecast messages (routing key: feed.weather.forecast) */
+export interface WeatherForecastData {
+  location: WeatherLocation;
+  /** Time the forecast was fetched (ISO 8601) */
+  fetchedAt: string;
+  /** Forecast entries at 3-hour intervals, in chronological order */
+  entries: WeatherForecastEntry[];
+}
+
+/** Full weather forecast message with envelope */
+export type WeatherForecastMessage = MessageEnvelope<WeatherForecastData>;
+
+// ============================================================================
+// Carbon Summary Message (derived)
+// ============================================================================
+
+/** Fuels counted as renewable in summaries */
+export const RENEWABLE_FUELS: readonly FuelType[] = ['wind', 'solar', 'hydro'];
+
+/** Rolling windows summarised by the aggregator */
+export const SUMMARY_WINDOWS = ['1h', '24h', '7d'] as const;
+
+export type SummaryWindow = (typeof SUMMARY_WINDOWS)[number];
+
+/** Forecast vs actual intensity over a window */
+export interface IntensityWindowStats {
+  /** Half-hour periods in the window */
+  periods: number;
+  /** Mean forecast in gCO2/kWh, null if no periods */
+  averageForecast: number | null;
+  /** Mean actual in gCO2/kWh over periods that have one */
+  averageActual: number | null;
+  /** Mean |forecast - actual| over periods that have an actual */
+  meanAbsoluteError: number | null;
+}
+
+/** Generation mix over a window */
+export interface GenerationWindowStats {
+  /** Settlement periods with a generation mix in the window */
+  readings: number;
+  /** Mean share per fuel, largest first */
+  averageMix: GenerationMixEntry[];
+  /** Mean combined share of RENEWABLE_FUELS, null if no readings */
+  renewablePercentage: number | null;
+}
+
+export interface CarbonSummaryWindow {
+  window: SummaryWindow;
+  /** Start of the window (ISO 8601) */
+  from: string;
+  /** End of the window (ISO 8601) */
+  to: string;
+  intensity: IntensityWindowStats;
+  generation: GenerationWindowStats;
+}
+
+/** Rolling summaries computed by the aggregator */
+export interface CarbonSummaryData {
+  /** When the summary was computed (ISO 8601) */
+  generatedAt: string;
+  windows: CarbonSummaryWindow[];
+}
+
+/** Full carbon summary message with envelope */
+export type CarbonSummaryMessage = MessageEnvelope<CarbonSummaryData>;
+
+// ============================================================================
+// Green Window Message (derived)
+// ============================================================================
+
+/** A contiguous run of forecast periods recommended for flexible load */
+export interface GreenWindow {
+  /** 1 for the lowest average intensity */
+  rank: number;
+  /** Start of the first period (ISO 8601) */
+  start: string;
+  /** End of the last period (ISO 8601) */
+  end: string;
+  /** Mean forecast intensity over the window in gCO2/kWh */
+  averageForecast: number;
+  /** Highest forecast of any period in the window in gCO2/kWh */
+  peakForecast: number;
+  /** Worst intensity index of any period in the window */
+  index: CarbonIntensityIndex;
+}
+
+/** Data payload for green window messages (routing key: feed.derived.carbon.green-window) */
+export interface GreenWindowData {
+  /** Forecast the windows were computed from */
+  horizon: CarbonForecastHorizon;
+  /** Time that forecast was fetched (ISO 8601) */
+  forecastFetchedAt: string;
+  /** Length of each window in hours */
+  windowHours: number;
+  /** Mean forecast over the remaining periods of the horizon, null if none remain */
+  horizonAverage: number | null;
+  /** Non-overlapping windows by rank; empty if the forecast is too short */
+  windows: GreenWindow[];
+}
+
+/** Full green window message with envelope */
+export type GreenWindowMessage = MessageEnvelope<GreenWindowData>;
+
+// ============================================================================
+// Correlation Message (derived)
+// ============================================================================
+
+/** Pearson correlation over the most recent joined periods */
+export interface CorrelationStats {
+  /** Joined periods that had both values */
+  samples: number;
+  /** Between -1 and 1, null with fewer than 3 samples or no variation */
+  coefficient: number | null;
+}
+
+/** Latest observation of one weather location within a period */
+export interface CorrelationObservation {
+  locationId: string;
+  /** Observation time (ISO 8601) */
+  observedAt: string;
+  /** Wind speed in m/s */
+  windSpeed: number;
+  /** Temperature in Celsius */
+  temperature: number;
+}
+
+/** Data payload for correlation messages (routing key: feed.derived.correlation) */
+export interface CorrelationData {
+  /** Half-hour period the readings were joined on (ISO 8601) */
+  periodStart: string;
+  periodEnd: string;
+  carbon: {
+    /** Actual intensity if known, otherwise the forecast, in gCO2/kWh; null without an intensity reading */
+    intensity: number | null;
+    intensityIsActual: boolean;
+    /** Wind share of generation, null without a generation reading */
+    windPercentage: number | null;
+    /** Combined share of RENEWABLE_FUELS, null without a generation reading */
+    renewablePercentage: number | null;
+  };
+  weather: {
+    /** Mean over the observed locations in m/s */
+    windSpeed: number;
+    /** Mean over the observed locations in Celsius */
+    temperature: number;
+    observations: CorrelationObservation[];
+  };
+  correlation: {
+    windSpeedVsWindShare: CorrelationStats;
+    temperatureVsIntensity: CorrelationStats;
+  };
+}
+
+/** Full correlation message with envelope */
+export type CorrelationMessage = MessageEnvelope<CorrelationData>;
+
+// ============================================================================
+// Alert Message
+// ============================================================================
+
+/** Alert state changes; each is published under alerts.<state> */
+export const ALERT_STATES = ['fired', 'resolved'] as const;
+
+export type AlertState = (typeof ALERT_STATES)[number];
+
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+/** Data payload for alert messages (routing key: alerts.<state>) */
+export interface AlertData {
+  /** Generated when the alert fires and repeated when it resolves */
+  alertId: string;
+  /** Rule that produced the alert */
+  ruleId: string;
+  /** What the rule was evaluated for, e.g. a weather location ID; null for feed-wide rules */
+  subject: string | null;
+  state: AlertState;
+  severity: AlertSeverity;
+  /** Human-readable description of the condition */
+  summary: string;
+  /** Value that changed the state, null for silence rules */
+  value: number | string | null;
+  /** When the alert fired (ISO 8601) */
+  firedAt: string;
+  /** When the alert resolved (ISO 8601), null while it is firing */
+  resolvedAt: string | null;
+  /** Envelope ID of the message that changed the state, null if a timer did */
+  triggeredBy: string | null;
+}
+
+/** Full alert message with envelope */
+export type AlertMessage = MessageEnvelope<AlertData>;
+
+// ============================================================================
+// Health Messages
+// ============================================================================
+
+export const FEED_HEALTH_STATUSES = ['stale', 'recovered'] as const;
+
+export type FeedHealthStatus = (typeof FEED_HEALTH_STATUSES)[number];
+
+/**
+ * Data payload for feed health messages (routing keys:
+ * system.health.feed-stale, system.health.feed-recovered)
+ */
+export interface FeedHealthData {
+  /** Message type of the feed (e.g., "feed.carbon.intensity") */
+  feed: string;
+  status: FeedHealthStatus;
+  /** Envelope timestamp of the latest message before the change (ISO 8601), null if none */
+  lastSeenAt: string | null;
+  /** Longest expected gap between two messages of the feed in ms */
+  expectedInterval: number;
+  /** Time without a message when the status changed, in ms */
+  silentFor: number;
+}
+
+export type FeedHealthMessage = MessageEnvelope<FeedHealthData>;
+
+export const SOURCE_HEALTH_STATUSES = ['failing', 'recovered'] as const;
+
+export type SourceHealthStatus = (typeof SOURCE_HEALTH_STATUSES)[number];
+
+/**
+ * Data payload for ingester source health messages (routing keys:
+ * system.health.source-failing, system.health.source-recovered). The
+ * envelope source names the ingester.
+ */
+export interface SourceHealthData {
+  /** Polling source within the ingester (e.g., "intensity") */
+  name: string;
+  status: SourceHealthStatus;
+  /** Failed polls in a row; for "recovered", the length of the streak that ended */
+  consecutiveFailures: number;
+  lastError: string | null;
+  /** Last successful poll (ISO 8601), null if none since the ingester started */
+  lastSuccessAt: string | null;
+}
+
+export type SourceHealthMessage = MessageEnvelope<SourceHealthData>;
+
 // ============================================================================
 // Message Sources and Types
 // ============================================================================
 
-/** Known message sources */
+/**
+ * Known message sources. Consumers that publish nothing are listed too, since
+ * the source is also each process's service name in traces.
+ */
 export const MESSAGE_SOURCES = {
   CARBON_INGESTER: 'carbon-ingester',
   WEATHER_INGESTER: 'weather-ingester',
+  AGGREGATOR: 'aggregator',
+  GREEN_WINDOW: 'green-window',
+  ALERTING: 'alerting',
+  CORRELATION: 'correlation',
+  WATCHDOG: 'watchdog',
+  LOGGER: 'logger',
+  PERSISTENCE: 'persistence',
+  QUERY_API: 'query-api',
 } as const;
 
 export type MessageSource = (typeof MESSAGE_SOURCES)[keyof typeof MESSAGE_SOURCES];
@@ -159,11 +528,64 @@ export type MessageSource = (typeof MESSAGE_SOURCES)[keyof typeof MESSAGE_SOURCE
 export const MESSAGE_TYPES = {
   CARBON_INTENSITY: 'feed.carbon.intensity',
   CARBON_GENERATION: 'feed.carbon.generation',
+  CARBON_FORECAST: 'feed.carbon.forecast',
+  /** Published under feed.carbon.regional.<regionId> */
+  CARBON_REGIONAL: 'feed.carbon.regional',
   WEATHER_CURRENT: 'feed.weather.current',
+  WEATHER_FORECAST: 'feed.weather.forecast',
+  CARBON_SUMMARY: 'feed.derived.carbon.summary',
+  CARBON_GREEN_WINDOW: 'feed.derived.carbon.green-window',
+  CORRELATION: 'feed.derived.correlation',
+  /** Published under alerts.<state> */
+  ALERT: 'alerts',
+  HEALTH_FEED_STALE: 'system.health.feed-stale',
+  HEALTH_FEED_RECOVERED: 'system.health.feed-recovered',
+  HEALTH_SOURCE_FAILING: 'system.health.source-failing',
+  HEALTH_SOURCE_RECOVERED: 'system.health.source-recovered',
 } as const;
 
 export type MessageType = (typeof MESSAGE_TYPES)[keyof typeof MESSAGE_TYPES];
 
+/**
+ * Current payload schema version for each message type. Bump the version when
+ * a payload shape changes and register an upcaster for the old version in
+ * schemas.ts so messages still sitting in queues can be read.
+ */
+export const SCHEMA_VERSIONS: Record<MessageType, number> = {
+  [MESSAGE_TYPES.CARBON_INTENSITY]: 1,
+  [MESSAGE_TYPES.CARBON_GENERATION]: 2,
+  [MESSAGE_TYPES.CARBON_FORECAST]: 1,
+  [MESSAGE_TYPES.CARBON_REGIONAL]: 1,
+  [MESSAGE_TYPES.WEATHER_CURRENT]: 2,
+  [MESSAGE_TYPES.WEATHER_FORECAST]: 2,
+  [MESSAGE_TYPES.CARBON_SUMMARY]: 1,
+  [MESSAGE_TYPES.CARBON_GREEN_WINDOW]: 1,
+  [MESSAGE_TYPES.CORRELATION]: 1,
+  [MESSAGE_TYPES.ALERT]: 1,
+  [MESSAGE_TYPES.HEALTH_FEED_STALE]: 1,
+  [MESSAGE_TYPES.HEALTH_FEED_RECOVERED]: 1,
+  [MESSAGE_TYPES.HEALTH_SOURCE_FAILING]: 1,
+  [MESSAGE_TYPES.HEALTH_SOURCE_RECOVERED]: 1,
+};
+
+/** Version assumed for envelopes that carry no schemaVersion */
+export const LEGACY_SCHEMA_VERSION = 1;
+
+// ============================================================================
+// Message Headers
+// ============================================================================
+
+/** AMQP headers that describe how a message was produced */
+export const MESSAGE_HEADERS = {
+  /** true on historical readings published by the backfill tool */
+  BACKFILL: 'x-backfill',
+} as const;
+
+/** True if a message's headers mark it as backfilled history */
+export function isBackfill(headers: Record<string, unknown> | undefined): boolean {
+  return headers?.[MESSAGE_HEADERS.BACKFILL] === true;
+}
+
 // ============================================================================
 // Envelope Factory
 // ============================================================================
@@ -175,7 +597,8 @@ export interface CreateEnvelopeOptions<T> {
 }
 
 /**
- * Creates a message envelope with auto-generated ID and timestamp.
+ * Creates a message envelope with auto-generated ID and timestamp, stamped
+ * with the current schema version of its type.
  */
 export function createEnvelope<T>(options: CreateEnvelopeOptions<T>): MessageEnvelope<T> {
   return {
@@ -183,6 +606,7 @@ export function createEnvelope<T>(options: CreateEnvelopeOptions<T>): MessageEnv
     source: options.source,
     type: options.type,
     timestamp: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSIONS[options.type],
     data: options.data,
   };
 }
@@ -213,6 +637,32 @@ export function createCarbonGenerationMessage(
   });
 }
 
+/**
+ * Creates a carbon forecast message envelope.
+ */
+export function createCarbonForecastMessage(
+  data: CarbonForecastData
+): CarbonForecastMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.CARBON_INGESTER,
+    type: MESSAGE_TYPES.CARBON_FORECAST,
+    data,
+  });
+}
+
+/**
+ * Creates a regional carbon intensity message envelope.
+ */
+export function createRegionalCarbonIntensityMessage(
+  data: RegionalCarbonIntensityData
+): RegionalCarbonIntensityMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.CARBON_INGESTER,
+    type: MESSAGE_TYPES.CARBON_REGIONAL,
+    data,
+  });
+}
+
 /**
  * Creates a weather current message envelope.
  */
@@ -225,3 +675,100 @@ export function createWeatherCurrentMessage(
     data,
   });
 }
+
+/**
+ * Creates a weather forecast message envelope.
+ */
+export function createWeatherForecastMessage(
+  data: WeatherForecastData
+): WeatherForecastMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.WEATHER_INGESTER,
+    type: MESSAGE_TYPES.WEATHER_FORECAST,
+    data,
+  });
+}
+
+/**
+ * Creates a carbon summary message envelope.
+ */
+export function createCarbonSummaryMessage(
+  data: CarbonSummaryData
+): CarbonSummaryMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.AGGREGATOR,
+    type: MESSAGE_TYPES.CARBON_SUMMARY,
+    data,
+  });
+}
+
+/**
+ * Creates a green window message envelope.
+ */
+export function createGreenWindowMessage(
+  data: GreenWindowData
+): GreenWindowMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.GREEN_WINDOW,
+    type: MESSAGE_TYPES.CARBON_GREEN_WINDOW,
+    data,
+  });
+}
+
+/**
+ * Creates a correlation message envelope.
+ */
+export function createCorrelationMessage(
+  data: CorrelationData
+): CorrelationMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.CORRELATION,
+    type: MESSAGE_TYPES.CORRELATION,
+    data,
+  });
+}
+
+/**
+ * Creates an alert message envelope.
+ */
+export function createAlertMessage(
+  data: AlertData
+): AlertMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.ALERTING,
+    type: MESSAGE_TYPES.ALERT,
+    data,
+  });
+}
+
+/**
+ * Creates a feed health message envelope, typed by its status.
+ */
+export function createFeedHealthMessage(
+  data: FeedHealthData
+): FeedHealthMessage {
+  return createEnvelope({
+    source: MESSAGE_SOURCES.WATCHDOG,
+    type: data.status === 'stale'
+      ? MESSAGE_TYPES.HEALTH_FEED_STALE
+      : MESSAGE_TYPES.HEALTH_FEED_RECOVERED,
+    data,
+  });
+}
+
+/**
+ * Creates a source health message envelope for the given ingester, typed by
+ * its status.
+ */
+export function createSourceHealthMessage(
+  source: MessageSource,
+  data: SourceHealthData
+): SourceHealthMessage {
+  return createEnvelope({
+    source,
+    type: data.status === 'failing'
+      ? MESSAGE_TYPES.HEALTH_SOURCE_FAILING
+      : MESSAGE_TYPES.HEALTH_SOURCE_RECOVERED,
+    data,
+  });
+}
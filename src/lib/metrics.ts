@@ -0,0 +1,225 @@
+// ============================================================================
+// Metric Types
+// ============================================================================
+
+/** Label name -> value; a metric's series are keyed by their label values */
+export type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/** Stable key for a set of label values, in the metric's label order */
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+/** Picks the metric's labels out of the given ones, in declaration order */
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+interface Metric {
+  readonly name: string;
+  /** Renders the metric in the Prometheus text exposition format */
+  render(): string;
+}
+
+/** A value that only goes up, per label set */
+export class Counter implements Metric {
+  readonly name: string;
+  private help: string;
+  private labelNames: readonly string[];
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.series.get(key);
+    if (series) {
+      series.value += amount;
+    } else {
+      this.series.set(key, { labels: pickLabels(this.labelNames, labels), value: amount });
+    }
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+
+    // An unlabelled counter is exported from the start, not only once it moves
+    if (this.labelNames.length === 0 && this.series.size === 0) {
+      lines.push(`${this.name} 0`);
+    }
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Observations per bucket, not cumulative; the last entry is +Inf */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Observations counted into fixed buckets, per label set */
+export class Histogram implements Metric {
+  readonly name: string;
+  private help: string;
+  private labelNames: readonly string[];
+  private buckets: readonly number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, buckets: readonly number[], labelNames: readonly string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    this.labelNames = labelNames;
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels: pickLabels(this.labelNames, labels),
+        counts: new Array(this.buckets.length + 1).fill(0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /** Starts a timer; calling the returned function observes the elapsed seconds */
+  startTimer(labels: Labels = {}): () => void {
+    const startedAt = process.hrtime.bigint();
+    return () => {
+      this.observe(Number(process.hrtime.bigint() - startedAt) / 1e9, labels);
+    };
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+      const bounds = [...this.buckets.map(String), '+Inf'];
+      bounds.forEach((le, i) => {
+        cumulative += series.counts[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/** The metrics one process exports, rendered together on /metrics */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, buckets: readonly number[], labelNames: readonly string[] = []): Histogram {
+    return this.register(new Histogram(name, help, buckets, labelNames));
+  }
+
+  render(): string {
+    return [...this.metrics.values()].map((metric) => `${metric.render()}\n`).join('');
+  }
+}
+
+/** Registry shared by everything in the process */
+export const registry = new MetricsRegistry();
+
+/**
+ * Metrics recorded by the shared library code, so every ingester and consumer
+ * exports the same names. Series appear once something is recorded for them.
+ */
+export const METRICS = {
+  // Ingesters
+  polls: registry.counter('feedhub_polls_total', 'Polls started per ingester source', ['source']),
+  fetchFailures: registry.counter(
+    'feedhub_fetch_failures_total',
+    'Failed upstream fetches per ingester source (reason: error or rate_limited)',
+    ['source', 'reason']
+  ),
+  fetchDuration: registry.histogram(
+    'feedhub_fetch_duration_seconds',
+    'Upstream fetch latency per ingester source, failed fetches included',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    ['source']
+  ),
+  suppressed: registry.counter(
+    'feedhub_readings_suppressed_total',
+    'Readings not published because they were unchanged, per ingester source',
+    ['source']
+  ),
+
+  // Publishing
+  published: registry.counter(
+    'feedhub_messages_published_total',
+    'Messages handed to the publisher (result: published, or buffered in the outbox)',
+    ['type', 'result']
+  ),
+
+  // Consuming
+  acks: registry.counter('feedhub_messages_acked_total', 'Deliveries acked per queue', ['queue']),
+  nacks: registry.counter('feedhub_messages_nacked_total', 'Deliveries nacked per queue', ['queue']),
+  retries: registry.counter(
+    'feedhub_messages_retried_total',
+    'Failed deliveries republished to the retry exchange per queue',
+    ['queue']
+  ),
+  deadLettered: registry.counter(
+    'feedhub_messages_dead_lettered_total',
+    'Failed deliveries routed to the DLQ per queue (reason: permanent or max-attempts)',
+    ['queue', 'reason']
+  ),
+  endToEndLatency: registry.histogram(
+    'feedhub_message_latency_seconds',
+    'Time from the envelope timestamp to delivery, per queue and message type',
+    [0.01, 0.05, 0.1, 0.5, 1, 5, 15, 60, 300, 1800],
+    ['queue', 'type']
+  ),
+
+  // Broker connection
+  reconnects: registry.counter(
+    'feedhub_broker_reconnects_total',
+    'Connections to RabbitMQ re-established after being lost'
+  ),
+};
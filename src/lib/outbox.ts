@@ -0,0 +1,152 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import { writeFileAtomic } from './files';
+import { MessageEnvelope } from './messages';
+
+/** A message waiting to be published */
+export interface OutboxEntry {
+  routingKey: string;
+  message: MessageEnvelope;
+  /** Extra AMQP headers to publish with */
+  headers?: Record<string, unknown>;
+  /** Additional routing keys the message is also routed by */
+  cc?: string[];
+}
+
+// ============================================================================
+// File Claims
+// ============================================================================
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Takes the lock file for this process unless a live process holds it */
+function tryLock(lockPath: string): boolean {
+  // A second attempt follows removing a stale lock
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+      process.once('exit', () => {
+        try {
+          unlinkSync(lockPath);
+        } catch {
+          // Already gone
+        }
+      });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const owner = parseInt(readFileSync(lockPath, 'utf-8'), 10);
+      if (owner === process.pid || isAlive(owner)) return false;
+      unlinkSync(lockPath);
+    }
+  }
+  return false;
+}
+
+/**
+ * Claims an outbox file in `dir` for this process: `<name>.jsonl`, or
+ * `<name>.<n>.jsonl` while live processes hold the lower ones, so instances
+ * sharing a directory (e.g., a standby and an active aggregator) never
+ * replay each other's messages. Each file is guarded by a `.lock` holding
+ * its owner's pid. The lock of a process that has exited is taken over with
+ * its file, so a restarted instance publishes what its predecessor buffered.
+ * Locks rely on pids, so the directory must not be shared across hosts.
+ */
+export function claimOutboxPath(dir: string, name: string): string {
+  mkdirSync(dir, { recursive: true });
+
+  for (let slot = 0; ; slot++) {
+    const path = join(dir, slot === 0 ? `${name}.jsonl` : `${name}.${slot}.jsonl`);
+    if (tryLock(`${path}.lock`)) {
+      return path;
+    }
+  }
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+/**
+ * Durable FIFO of messages that could not be published. Entries are kept in a
+ * JSONL file so they survive a restart, and are flushed oldest first.
+ */
+export class Outbox {
+  private path: string;
+  private maxSize: number;
+  private entries: OutboxEntry[] = [];
+  private dropped = 0;
+
+  constructor(path: string, maxSize: number) {
+    this.path = path;
+    this.maxSize = maxSize;
+    this.load();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Number of entries discarded because the outbox was full */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  peek(): OutboxEntry | undefined {
+    return this.entries[0];
+  }
+
+  /**
+   * Adds an entry to the end of the outbox. When full, the oldest entry is
+   * dropped to make room and false is returned.
+   */
+  append(entry: OutboxEntry): boolean {
+    this.entries.push(entry);
+
+    if (this.entries.length > this.maxSize) {
+      this.entries.shift();
+      this.dropped++;
+      this.save();
+      return false;
+    }
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+    return true;
+  }
+
+  /** Removes the oldest entry once it has been published */
+  shift(): void {
+    this.entries.shift();
+    this.save();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) return;
+
+    this.entries = readFileSync(this.path, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as OutboxEntry);
+  }
+
+  private save(): void {
+    writeFileAtomic(this.path, this.entries.map((entry) => JSON.stringify(entry) + '\n').join(''));
+  }
+}
@@ -0,0 +1,221 @@
+import { ConnectionManager, getConnectionManager, Unsubscribe } from './connection';
+import { EXCHANGES } from './topology';
+import { MessageEnvelope, MessageSource } from './messages';
+import { validateEnvelope } from './validation';
+import { Outbox, OutboxEntry, claimOutboxPath } from './outbox';
+import { METRICS } from './metrics';
+import { Logger, createLogger, messageFields } from './logger';
+import { TRACE_HEADERS, formatTraceparent, startSpan } from './tracing';
+
+export interface PublisherOptions {
+  /** Publishing service, used as the AMQP appId and outbox file name, see claimOutboxPath */
+  source: MessageSource;
+  /** Component name in log lines (e.g., "Carbon") */
+  logPrefix: string;
+  manager?: ConnectionManager;
+  /** Directory holding the outbox file */
+  outboxDir?: string;
+  /** Maximum buffered messages before the oldest are dropped */
+  maxOutboxSize?: number;
+  /** How often to try flushing a non-empty outbox in ms */
+  flushInterval?: number;
+}
+
+export interface PublishOptions {
+  /** Extra AMQP headers */
+  headers?: Record<string, unknown>;
+  /**
+   * Additional routing keys (sender-selected distribution). A queue matching
+   * several of the keys still receives the message once.
+   */
+  cc?: string[];
+}
+
+export type PublishResult = 'published' | 'buffered';
+
+/**
+ * Publishes envelopes to the topic exchange on a confirm channel, resolving
+ * only once the broker has acked each message.
+ *
+ * If the broker is unreachable or nacks a message, it is written to an
+ * on-disk outbox instead. While the outbox holds anything, new messages are
+ * appended behind it so delivery order is preserved, and the outbox is
+ * flushed oldest first once the connection is back.
+ *
+ * Every message carries a `traceparent` header for its publish span, a child
+ * of the active span, so consumers continue the publisher's trace.
+ */
+export class Publisher {
+  private source: MessageSource;
+  private log: Logger;
+  private manager: ConnectionManager;
+  private outbox: Outbox;
+  private flushInterval: number;
+
+  private flushTimer: NodeJS.Timeout | null = null;
+  private offReconnect: Unsubscribe | null = null;
+  // Serialises publishes and flushes so messages leave in order
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(options: PublisherOptions) {
+    this.source = options.source;
+    this.log = createLogger(options.logPrefix);
+    this.manager = options.manager ?? getConnectionManager();
+    this.flushInterval = options.flushInterval ?? 5000;
+
+    const outboxDir = options.outboxDir ?? process.env.OUTBOX_DIR ?? './data/outbox';
+    const maxOutboxSize =
+      options.maxOutboxSize ?? parseInt(process.env.OUTBOX_MAX_SIZE || '1000', 10);
+    this.outbox = new Outbox(claimOutboxPath(outboxDir, this.source), maxOutboxSize);
+  }
+
+  /**
+   * Starts flushing the outbox on every reconnect and periodically while it is
+   * non-empty, publishing anything left over from a previous run first.
+   */
+  async start(): Promise<void> {
+    if (this.outbox.size > 0) {
+      this.log.info(`Outbox holds ${this.outbox.size} message(s) from a previous run`);
+    }
+
+    await this.flush();
+
+    this.offReconnect = this.manager.onReconnect(() => {
+      this.flush().catch(() => {
+        // Failures are logged by flush; the timer retries
+      });
+    });
+
+    // Also covers confirm channel failures while the connection stays up
+    this.flushTimer = setInterval(() => {
+      if (this.outbox.size > 0 && this.manager.isConnected()) {
+        this.flush().catch(() => {
+          // Failures are logged by flush; the next tick retries
+        });
+      }
+    }, this.flushInterval);
+  }
+
+  stop(): void {
+    if (this.offReconnect) {
+      this.offReconnect();
+      this.offReconnect = null;
+    }
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Publishes a message, or buffers it in the outbox if the broker cannot
+   * confirm it. Throws only if the message itself is invalid.
+   */
+  publish(
+    message: MessageEnvelope,
+    routingKey: string,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    // Refuse to publish or buffer anything consumers would reject
+    validateEnvelope(message);
+
+    const span = startSpan(`publish ${routingKey}`, {
+      kind: 'producer',
+      attributes: {
+        'messaging.system': 'rabbitmq',
+        'messaging.destination.name': EXCHANGES.TOPIC,
+        'messaging.rabbitmq.destination.routing_key': routingKey,
+        'messaging.message.id': message.id,
+      },
+    });
+    const headers = { ...options.headers, [TRACE_HEADERS.TRACEPARENT]: formatTraceparent(span.context) };
+
+    const result = this.enqueue(async () => {
+      const entry: OutboxEntry = { routingKey, message, headers, cc: options.cc };
+
+      if (this.outbox.size === 0 && this.manager.isConnected()) {
+        try {
+          await this.send(entry);
+          this.log.info('Published message', messageFields(message, routingKey));
+          METRICS.published.inc({ type: message.type, result: 'published' });
+          return 'published';
+        } catch (error) {
+          this.log.warn('Publish not confirmed', { ...messageFields(message, routingKey), error });
+        }
+      }
+
+      this.buffer(entry);
+      METRICS.published.inc({ type: message.type, result: 'buffered' });
+      span.setAttribute('feedhub.buffered', true);
+      return 'buffered';
+    });
+
+    return result.finally(() => span.end());
+  }
+
+  /** Number of messages waiting in the outbox */
+  get backlog(): number {
+    return this.outbox.size;
+  }
+
+  /**
+   * Publishes buffered messages oldest first, stopping at the first failure.
+   */
+  flush(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.outbox.size === 0 || !this.manager.isConnected()) return;
+
+      const total = this.outbox.size;
+      let entry: OutboxEntry | undefined;
+
+      while ((entry = this.outbox.peek())) {
+        try {
+          await this.send(entry);
+        } catch (error) {
+          this.log.warn(`Outbox flush stopped with ${this.outbox.size} message(s) left`, { error });
+          return;
+        }
+        this.outbox.shift();
+      }
+
+      this.log.info(`Flushed ${total} message(s) from outbox`);
+    });
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private buffer(entry: OutboxEntry): void {
+    if (!this.outbox.append(entry)) {
+      this.log.warn(`Outbox full, dropped oldest message (${this.outbox.droppedCount} dropped so far)`);
+    }
+    this.log.info(`Buffered message (outbox: ${this.outbox.size})`, messageFields(entry.message, entry.routingKey));
+  }
+
+  private async send(entry: OutboxEntry): Promise<void> {
+    const channel = await this.manager.getConfirmChannel();
+    const content = Buffer.from(JSON.stringify(entry.message));
+
+    await new Promise<void>((resolve, reject) => {
+      channel.publish(
+        EXCHANGES.TOPIC,
+        entry.routingKey,
+        content,
+        {
+          contentType: 'application/json',
+          contentEncoding: 'utf-8',
+          deliveryMode: 2, // persistent
+          messageId: entry.message.id,
+          timestamp: Math.floor(Date.now() / 1000),
+          appId: this.source,
+          headers: entry.headers,
+          CC: entry.cc,
+        },
+        (err) => (err ? reject(err) : resolve())
+      );
+    });
+  }
+}
@@ -0,0 +1,213 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { ReadingStore, HistoryQuery } from './readings';
+import { CARBON_FORECAST_HORIZONS, CarbonForecastHorizon } from './messages';
+
+// ============================================================================
+// Request Errors
+// ============================================================================
+
+/** A request the API cannot answer, sent back as { error } with its status */
+export class QueryError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'QueryError';
+    this.status = status;
+  }
+}
+
+function notFound(what: string): QueryError {
+  return new QueryError(404, `No ${what} yet`);
+}
+
+// ============================================================================
+// Parameters
+// ============================================================================
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+function parseTime(params: URLSearchParams, name: string): Date | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new QueryError(400, `Invalid ${name} "${value}" (expected an ISO 8601 time)`);
+  }
+  return time;
+}
+
+/** Reads from, to, cursor and limit from the query string */
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery {
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new QueryError(400, `Invalid limit "${limitParam}" (expected 1-${MAX_PAGE_SIZE})`);
+  }
+
+  return {
+    from: parseTime(params, 'from'),
+    to: parseTime(params, 'to'),
+    cursor: parseTime(params, 'cursor'),
+    limit,
+  };
+}
+
+function parseRegionId(value: string): number {
+  const regionId = Number(value);
+  if (!Number.isInteger(regionId) || regionId < 1) {
+    throw new QueryError(400, `Invalid region ID "${value}"`);
+  }
+  return regionId;
+}
+
+function parseHorizon(value: string): CarbonForecastHorizon {
+  if (!(CARBON_FORECAST_HORIZONS as readonly string[]).includes(value)) {
+    throw new QueryError(400, `Unknown horizon "${value}" (expected ${CARBON_FORECAST_HORIZONS.join(', ')})`);
+  }
+  return value as CarbonForecastHorizon;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+type RouteHandler = (store: ReadingStore, params: string[], query: URLSearchParams) => unknown;
+
+interface Route {
+  /** Matched against the decoded path segments joined by "/" */
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+/** Returns the value, or a 404 naming what is missing when there is none */
+function found<T>(value: T | null, what: string): T {
+  if (value === null) throw notFound(what);
+  return value;
+}
+
+/**
+ * Latest endpoints return the payload itself, as typed in messages.ts. History
+ * endpoints return a page of payloads, see HistoryPage.
+ */
+const ROUTES: Route[] = [
+  {
+    pattern: /^\/carbon\/intensity\/latest$/,
+    handler: (store) => found(store.latestIntensity(), 'carbon intensity reading'),
+  },
+  {
+    pattern: /^\/carbon\/intensity\/history$/,
+    handler: (store, _, query) => store.intensityHistory(parseHistoryQuery(query)),
+  },
+  {
+    pattern: /^\/carbon\/generation\/latest$/,
+    handler: (store) => found(store.latestGeneration(), 'generation mix'),
+  },
+  {
+    pattern: /^\/carbon\/generation\/history$/,
+    handler: (store, _, query) => store.generationHistory(parseHistoryQuery(query)),
+  },
+  {
+    pattern: /^\/carbon\/forecast\/([^/]+)\/latest$/,
+    handler: (store, [horizon]) =>
+      found(store.latestCarbonForecast(parseHorizon(horizon)), `${horizon} carbon forecast`),
+  },
+  {
+    pattern: /^\/carbon\/regional$/,
+    handler: (store) => ({ regions: store.regions() }),
+  },
+  {
+    pattern: /^\/carbon\/regional\/([^/]+)\/latest$/,
+    handler: (store, [regionId]) =>
+      found(store.latestRegional(parseRegionId(regionId)), `carbon intensity reading for region ${regionId}`),
+  },
+  {
+    pattern: /^\/carbon\/regional\/([^/]+)\/history$/,
+    handler: (store, [regionId], query) =>
+      found(
+        store.regionalHistory(parseRegionId(regionId), parseHistoryQuery(query)),
+        `carbon intensity reading for region ${regionId}`
+      ),
+  },
+  {
+    pattern: /^\/weather$/,
+    handler: (store) => ({ locations: store.locations() }),
+  },
+  {
+    pattern: /^\/weather\/([^/]+)\/latest$/,
+    handler: (store, [location]) => found(store.latestWeather(location), `weather observation for ${location}`),
+  },
+  {
+    pattern: /^\/weather\/([^/]+)\/history$/,
+    handler: (store, [location], query) =>
+      found(store.weatherHistory(location, parseHistoryQuery(query)), `weather observation for ${location}`),
+  },
+  {
+    pattern: /^\/weather\/([^/]+)\/forecast\/latest$/,
+    handler: (store, [location]) =>
+      found(store.latestWeatherForecast(location), `weather forecast for ${location}`),
+  },
+];
+
+// ============================================================================
+// Server
+// ============================================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(`${JSON.stringify(body)}\n`);
+}
+
+/** Finds the route for a request and runs it; errors become JSON responses */
+function handleRequest(store: ReadingStore, req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  let path: string;
+  try {
+    path = decodeURIComponent(url.pathname).replace(/\/+$/, '') || '/';
+  } catch {
+    sendJson(res, 400, { error: 'Malformed path' });
+    return;
+  }
+
+  for (const route of ROUTES) {
+    const match = route.pattern.exec(path);
+    if (!match) continue;
+
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      sendJson(res, 405, { error: `${req.method} not allowed` });
+      return;
+    }
+
+    try {
+      sendJson(res, 200, route.handler(store, match.slice(1), url.searchParams));
+    } catch (error) {
+      if (error instanceof QueryError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        sendJson(res, 500, { error: 'Internal error' });
+        throw error;
+      }
+    }
+    return;
+  }
+
+  sendJson(res, 404, { error: `Unknown endpoint ${path}` });
+}
+
+/**
+ * Creates the read-only HTTP API over the store. The caller starts it with
+ * listen(); unexpected errors are passed to onError after a 500 is sent.
+ */
+export function createQueryServer(store: ReadingStore, onError: (error: unknown) => void): Server {
+  return createServer((req, res) => {
+    try {
+      handleRequest(store, req, res);
+    } catch (error) {
+      onError(error);
+    }
+  });
+}
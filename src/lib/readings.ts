@@ -0,0 +1,327 @@
+import { existsSync, readFileSync } from 'fs';
+import { writeFileAtomic } from './files';
+import {
+  MessageEnvelope,
+  CarbonIntensityData,
+  CarbonGenerationData,
+  CarbonForecastData,
+  CarbonForecastHorizon,
+  RegionalCarbonIntensityData,
+  WeatherCurrentData,
+  WeatherForecastData,
+  MESSAGE_TYPES,
+} from './messages';
+
+// ============================================================================
+// History Queries
+// ============================================================================
+
+/** A time-ranged page request; all bounds are optional */
+export interface HistoryQuery {
+  /** Inclusive lower bound on the reading's time */
+  from?: Date;
+  /** Exclusive upper bound on the reading's time */
+  to?: Date;
+  /** Continue after the reading at this time, as returned in nextCursor */
+  cursor?: Date;
+  limit: number;
+}
+
+/** Readings oldest first; nextCursor is null on the last page */
+export interface HistoryPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Readings of one series keyed by their time in ms, so a redelivered or
+ * revised reading (e.g., `actual` arriving later) replaces the earlier one.
+ */
+class Series<T> {
+  private readings = new Map<number, T>();
+
+  get size(): number {
+    return this.readings.size;
+  }
+
+  get(time: string): T | undefined {
+    return this.readings.get(Date.parse(time));
+  }
+
+  set(time: string, data: T): void {
+    const key = Date.parse(time);
+    if (!isNaN(key)) {
+      this.readings.set(key, data);
+    }
+  }
+
+  /** The reading with the newest time, whatever order readings arrived in */
+  latest(): T | null {
+    let latestKey = -Infinity;
+    for (const key of this.readings.keys()) {
+      if (key > latestKey) latestKey = key;
+    }
+    return this.readings.get(latestKey) ?? null;
+  }
+
+  query({ from, to, cursor, limit }: HistoryQuery): HistoryPage<T> {
+    const after = cursor?.getTime() ?? -Infinity;
+    const keys = [...this.readings.keys()]
+      .filter((key) => key > after)
+      .filter((key) => (!from || key >= from.getTime()) && (!to || key < to.getTime()))
+      .sort((a, b) => a - b);
+
+    const page = keys.slice(0, limit);
+    const hasMore = keys.length > page.length;
+
+    return {
+      items: page.map((key) => this.readings.get(key) as T),
+      nextCursor: hasMore ? new Date(page[page.length - 1]).toISOString() : null,
+    };
+  }
+
+  values(): T[] {
+    return [...this.readings.values()];
+  }
+
+  prune(cutoff: number): void {
+    for (const key of this.readings.keys()) {
+      if (key < cutoff) this.readings.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// Reading Store
+// ============================================================================
+
+export interface ReadingStoreOptions {
+  /** How long readings are kept, by their own time rather than arrival, in ms */
+  retention: number;
+  /** Snapshot file; readings are kept in memory only without one */
+  statePath?: string | null;
+}
+
+interface Snapshot {
+  intensity: CarbonIntensityData[];
+  generation: CarbonGenerationData[];
+  regional: RegionalCarbonIntensityData[];
+  weather: WeatherCurrentData[];
+  carbonForecasts: CarbonForecastData[];
+  weatherForecasts: WeatherForecastData[];
+}
+
+/**
+ * The latest and recent readings of every feed, held in memory for the query
+ * API: national intensity and generation, intensity per region and current
+ * weather per location, plus the newest carbon forecast per horizon and
+ * weather forecast per location.
+ *
+ * With a state path the readings are loaded on construction and written by
+ * save(), so a restart serves what was there before.
+ */
+export class ReadingStore {
+  private retention: number;
+  private statePath: string | null;
+  private intensity = new Series<CarbonIntensityData>();
+  private generation = new Series<CarbonGenerationData>();
+  private regional = new Map<number, Series<RegionalCarbonIntensityData>>();
+  private weather = new Map<string, Series<WeatherCurrentData>>();
+  private carbonForecasts = new Map<CarbonForecastHorizon, CarbonForecastData>();
+  private weatherForecasts = new Map<string, WeatherForecastData>();
+
+  constructor(options: ReadingStoreOptions) {
+    this.retention = options.retention;
+    this.statePath = options.statePath ?? null;
+    this.load();
+  }
+
+  /** Readings held per series kind */
+  get size(): Record<'intensity' | 'generation' | 'regional' | 'weather' | 'forecasts', number> {
+    const total = <T>(series: Map<unknown, Series<T>>) =>
+      [...series.values()].reduce((sum, s) => sum + s.size, 0);
+
+    return {
+      intensity: this.intensity.size,
+      generation: this.generation.size,
+      regional: total(this.regional),
+      weather: total(this.weather),
+      forecasts: this.carbonForecasts.size + this.weatherForecasts.size,
+    };
+  }
+
+  /** Stores the message's payload; returns false for types the store does not keep */
+  record(envelope: MessageEnvelope): boolean {
+    switch (envelope.type) {
+      case MESSAGE_TYPES.CARBON_INTENSITY:
+        this.addIntensity(envelope.data as CarbonIntensityData);
+        return true;
+      case MESSAGE_TYPES.CARBON_GENERATION:
+        this.addGeneration(envelope.data as CarbonGenerationData);
+        return true;
+      case MESSAGE_TYPES.CARBON_REGIONAL:
+        this.addRegional(envelope.data as RegionalCarbonIntensityData);
+        return true;
+      case MESSAGE_TYPES.CARBON_FORECAST:
+        this.addCarbonForecast(envelope.data as CarbonForecastData);
+        return true;
+      case MESSAGE_TYPES.WEATHER_CURRENT:
+        this.addWeather(envelope.data as WeatherCurrentData);
+        return true;
+      case MESSAGE_TYPES.WEATHER_FORECAST:
+        this.addWeatherForecast(envelope.data as WeatherForecastData);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  latestIntensity(): CarbonIntensityData | null {
+    return this.intensity.latest();
+  }
+
+  latestGeneration(): CarbonGenerationData | null {
+    return this.generation.latest();
+  }
+
+  latestRegional(regionId: number): RegionalCarbonIntensityData | null {
+    return this.regional.get(regionId)?.latest() ?? null;
+  }
+
+  latestWeather(locationId: string): WeatherCurrentData | null {
+    return this.weather.get(locationId)?.latest() ?? null;
+  }
+
+  latestCarbonForecast(horizon: CarbonForecastHorizon): CarbonForecastData | null {
+    return this.carbonForecasts.get(horizon) ?? null;
+  }
+
+  latestWeatherForecast(locationId: string): WeatherForecastData | null {
+    return this.weatherForecasts.get(locationId) ?? null;
+  }
+
+  /** Intensity by period start */
+  intensityHistory(query: HistoryQuery): HistoryPage<CarbonIntensityData> {
+    return this.intensity.query(query);
+  }
+
+  /** Generation mix by period start, the latest fetch of each period */
+  generationHistory(query: HistoryQuery): HistoryPage<CarbonGenerationData> {
+    return this.generation.query(query);
+  }
+
+  /** Regional intensity by period start; null for a region never seen */
+  regionalHistory(regionId: number, query: HistoryQuery): HistoryPage<RegionalCarbonIntensityData> | null {
+    return this.regional.get(regionId)?.query(query) ?? null;
+  }
+
+  /** Observations by observedAt; null for a location never seen */
+  weatherHistory(locationId: string, query: HistoryQuery): HistoryPage<WeatherCurrentData> | null {
+    return this.weather.get(locationId)?.query(query) ?? null;
+  }
+
+  /** Region IDs with readings, ascending */
+  regions(): number[] {
+    return [...this.regional.keys()].sort((a, b) => a - b);
+  }
+
+  /** Location IDs with observations or forecasts, sorted */
+  locations(): string[] {
+    return [...new Set([...this.weather.keys(), ...this.weatherForecasts.keys()])].sort();
+  }
+
+  /** Drops readings older than the retention period */
+  prune(now = new Date()): void {
+    const cutoff = now.getTime() - this.retention;
+
+    this.intensity.prune(cutoff);
+    this.generation.prune(cutoff);
+    for (const series of [...this.regional.values(), ...this.weather.values()]) {
+      series.prune(cutoff);
+    }
+  }
+
+  /** Writes the readings to the state path, if there is one */
+  save(): void {
+    if (!this.statePath) return;
+
+    const snapshot: Snapshot = {
+      intensity: this.intensity.values(),
+      generation: this.generation.values(),
+      regional: [...this.regional.values()].flatMap((series) => series.values()),
+      weather: [...this.weather.values()].flatMap((series) => series.values()),
+      carbonForecasts: [...this.carbonForecasts.values()],
+      weatherForecasts: [...this.weatherForecasts.values()],
+    };
+
+    writeFileAtomic(this.statePath, JSON.stringify(snapshot));
+  }
+
+  /**
+   * Merges the snapshot into the readings held. Readings are keyed by their
+   * own time, so those newer than the snapshot are kept.
+   */
+  reload(): void {
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.statePath || !existsSync(this.statePath)) return;
+
+    const snapshot = JSON.parse(readFileSync(this.statePath, 'utf-8')) as Partial<Snapshot>;
+    snapshot.intensity?.forEach((data) => this.addIntensity(data));
+    snapshot.generation?.forEach((data) => this.addGeneration(data));
+    snapshot.regional?.forEach((data) => this.addRegional(data));
+    snapshot.weather?.forEach((data) => this.addWeather(data));
+    snapshot.carbonForecasts?.forEach((data) => this.addCarbonForecast(data));
+    snapshot.weatherForecasts?.forEach((data) => this.addWeatherForecast(data));
+    this.prune();
+  }
+
+  private addIntensity(data: CarbonIntensityData): void {
+    this.intensity.set(data.periodStart, data);
+  }
+
+  // Re-polls and heartbeats of a period replace its mix; a redelivered older
+  // fetch never wins
+  private addGeneration(data: CarbonGenerationData): void {
+    const current = this.generation.get(data.periodStart);
+    if (!current || Date.parse(data.timestamp) >= Date.parse(current.timestamp)) {
+      this.generation.set(data.periodStart, data);
+    }
+  }
+
+  private addRegional(data: RegionalCarbonIntensityData): void {
+    let series = this.regional.get(data.regionId);
+    if (!series) {
+      series = new Series();
+      this.regional.set(data.regionId, series);
+    }
+    series.set(data.periodStart, data);
+  }
+
+  private addWeather(data: WeatherCurrentData): void {
+    let series = this.weather.get(data.location.id);
+    if (!series) {
+      series = new Series();
+      this.weather.set(data.location.id, series);
+    }
+    series.set(data.observedAt, data);
+  }
+
+  // Forecasts are superseded as a whole; a redelivered older one never wins
+
+  private addCarbonForecast(data: CarbonForecastData): void {
+    const current = this.carbonForecasts.get(data.horizon);
+    if (!current || Date.parse(data.fetchedAt) >= Date.parse(current.fetchedAt)) {
+      this.carbonForecasts.set(data.horizon, data);
+    }
+  }
+
+  private addWeatherForecast(data: WeatherForecastData): void {
+    const current = this.weatherForecasts.get(data.location.id);
+    if (!current || Date.parse(data.fetchedAt) >= Date.parse(current.fetchedAt)) {
+      this.weatherForecasts.set(data.location.id, data);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+// ============================================================================
+// Carbon Intensity API Regions
+// ============================================================================
+
+/** Static details of a Carbon Intensity API region */
+export interface CarbonRegion {
+  /** Region ID used by the API (1-17) */
+  id: number;
+  /** Short name as returned by the API (e.g., "North Scotland") */
+  shortName: string;
+  /**
+   * Principal postcode areas served. Areas on a DNO boundary can straddle two
+   * regions; use the API's /regional/postcode endpoint for an exact lookup.
+   */
+  postcodeAreas: string[];
+}
+
+/** The 14 DNO regions */
+const DNO_REGIONS: CarbonRegion[] = [
+  { id: 1, shortName: 'North Scotland', postcodeAreas: ['AB', 'DD', 'HS', 'IV', 'KW', 'PH', 'ZE'] },
+  { id: 2, shortName: 'South Scotland', postcodeAreas: ['DG', 'EH', 'FK', 'G', 'KA', 'KY', 'ML', 'PA', 'TD'] },
+  { id: 3, shortName: 'North West England', postcodeAreas: ['BB', 'BL', 'CA', 'FY', 'LA', 'M', 'OL', 'PR', 'SK', 'WA', 'WN'] },
+  { id: 4, shortName: 'North East England', postcodeAreas: ['DH', 'DL', 'NE', 'SR', 'TS'] },
+  { id: 5, shortName: 'Yorkshire', postcodeAreas: ['BD', 'DN', 'HD', 'HG', 'HU', 'HX', 'LS', 'S', 'WF', 'YO'] },
+  { id: 6, shortName: 'North Wales & Merseyside', postcodeAreas: ['CH', 'CW', 'L', 'LL', 'SY'] },
+  { id: 7, shortName: 'South Wales', postcodeAreas: ['CF', 'LD', 'NP', 'SA'] },
+  { id: 8, shortName: 'West Midlands', postcodeAreas: ['B', 'DY', 'HR', 'ST', 'TF', 'WR', 'WS', 'WV'] },
+  { id: 9, shortName: 'East Midlands', postcodeAreas: ['CV', 'DE', 'LE', 'LN', 'NG', 'NN'] },
+  { id: 10, shortName: 'East England', postcodeAreas: ['AL', 'CB', 'CM', 'CO', 'IP', 'LU', 'MK', 'NR', 'PE', 'SG', 'SS'] },
+  { id: 11, shortName: 'South West England', postcodeAreas: ['BA', 'BS', 'EX', 'GL', 'PL', 'TA', 'TQ', 'TR'] },
+  { id: 12, shortName: 'South England', postcodeAreas: ['BH', 'DT', 'GU', 'HP', 'OX', 'PO', 'RG', 'SL', 'SN', 'SO', 'SP'] },
+  { id: 13, shortName: 'London', postcodeAreas: ['E', 'EC', 'N', 'NW', 'SE', 'SW', 'W', 'WC'] },
+  { id: 14, shortName: 'South East England', postcodeAreas: ['BN', 'BR', 'CR', 'CT', 'DA', 'KT', 'ME', 'RH', 'SM', 'TN'] },
+];
+
+function areasOf(...regionIds: number[]): string[] {
+  const areas = DNO_REGIONS.filter((r) => regionIds.includes(r.id)).flatMap((r) => r.postcodeAreas);
+  return [...new Set(areas)].sort();
+}
+
+/** Aggregate regions reported alongside the DNO regions */
+const AGGREGATE_REGIONS: CarbonRegion[] = [
+  { id: 15, shortName: 'England', postcodeAreas: areasOf(3, 4, 5, 6, 8, 9, 10, 11, 12, 13, 14) },
+  { id: 16, shortName: 'Scotland', postcodeAreas: areasOf(1, 2) },
+  { id: 17, shortName: 'Wales', postcodeAreas: areasOf(6, 7) },
+];
+
+/** All 17 regions reported by GET /regional, keyed by region ID */
+export const CARBON_REGIONS: ReadonlyMap<number, CarbonRegion> = new Map(
+  [...DNO_REGIONS, ...AGGREGATE_REGIONS].map((region) => [region.id, region])
+);
+
+/** Postcode areas for a region, empty if the region is not known */
+export function getPostcodeAreas(regionId: number): string[] {
+  return CARBON_REGIONS.get(regionId)?.postcodeAreas ?? [];
+}
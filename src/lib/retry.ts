@@ -0,0 +1,206 @@
+import { ConsumeMessage, Message, MessagePropertyHeaders, Options } from 'amqplib';
+import { Channel, getConnectionManager } from './connection';
+import {
+  EXCHANGES,
+  getRetryPolicy,
+  retryQueueTtl,
+  retryRoutingKey,
+} from './topology';
+import { METRICS } from './metrics';
+import { activeSpan } from './tracing';
+
+// ============================================================================
+// Retry Headers
+// ============================================================================
+
+export const RETRY_HEADERS = {
+  /** Number of retries already attempted for this message */
+  RETRY_COUNT: 'x-retry-count',
+  /** Routing key the message was originally published with */
+  ORIGINAL_ROUTING_KEY: 'x-original-routing-key',
+  /** Message of the error that caused the most recent retry */
+  LAST_ERROR: 'x-last-error',
+  /** Why a message was dead-lettered without retries */
+  DEAD_LETTER_REASON: 'x-dead-letter-reason',
+  /** Queue whose consumer dead-lettered the message */
+  DEAD_LETTER_QUEUE: 'x-dead-letter-queue',
+  /** ISO 8601 time the message was dead-lettered */
+  DEAD_LETTERED_AT: 'x-dead-lettered-at',
+} as const;
+
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+/**
+ * Error that will not succeed on retry (bad data, business rule violation).
+ * Messages failing with a permanent error are dead-lettered immediately.
+ */
+export class PermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentError';
+  }
+}
+
+/**
+ * Returns true if retrying cannot help. JSON parse failures surface as
+ * SyntaxError and are treated as permanent.
+ */
+export function isPermanentError(error: unknown): boolean {
+  return error instanceof PermanentError || error instanceof SyntaxError;
+}
+
+// ============================================================================
+// Header Helpers
+// ============================================================================
+
+/** Returns how many times this message has already been retried */
+export function getRetryCount(msg: Message): number {
+  const value = msg.properties.headers?.[RETRY_HEADERS.RETRY_COUNT];
+  const count = typeof value === 'number' ? value : parseInt(String(value ?? '0'), 10);
+  return Number.isFinite(count) && count > 0 ? count : 0;
+}
+
+/**
+ * Returns the routing key the message was first published with. Retried
+ * messages arrive with a retry routing key, so the original is kept in a header.
+ */
+export function getOriginalRoutingKey(msg: Message): string {
+  const original = msg.properties.headers?.[RETRY_HEADERS.ORIGINAL_ROUTING_KEY];
+  return typeof original === 'string' ? original : msg.fields.routingKey;
+}
+
+// ============================================================================
+// Failure Handling
+// ============================================================================
+
+export type FailureOutcome =
+  | { action: 'retry'; attempt: number; maxAttempts: number; delay: number }
+  | { action: 'dead-letter'; reason: 'permanent' | 'max-attempts'; attempts: number };
+
+function copyProperties(msg: ConsumeMessage): Options.Publish {
+  return {
+    contentType: msg.properties.contentType,
+    contentEncoding: msg.properties.contentEncoding,
+    deliveryMode: 2, // persistent
+    messageId: msg.properties.messageId,
+    timestamp: msg.properties.timestamp,
+    appId: msg.properties.appId,
+  };
+}
+
+function withoutCc(headers: MessagePropertyHeaders | undefined): MessagePropertyHeaders {
+  const cleaned: MessagePropertyHeaders = { ...headers };
+  delete cleaned.CC;
+  return cleaned;
+}
+
+/**
+ * Publishes on the shared confirm channel and resolves once the broker has
+ * taken the message. Callers ack the original only then, so a copy the broker
+ * refuses never costs the message itself.
+ */
+async function publishConfirmed(
+  exchange: string,
+  routingKey: string,
+  content: Buffer,
+  options: Options.Publish
+): Promise<void> {
+  const confirmChannel = await getConnectionManager().getConfirmChannel();
+
+  await new Promise<void>((resolve, reject) => {
+    confirmChannel.publish(exchange, routingKey, content, options, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * Publishes a message straight to the dead letter exchange with a reason
+ * header, then acks the original. A plain nack cannot attach the reason.
+ */
+async function deadLetterWithReason(
+  channel: Channel,
+  msg: ConsumeMessage,
+  queue: string,
+  reason: string
+): Promise<void> {
+  await publishConfirmed(EXCHANGES.DLX, getOriginalRoutingKey(msg), msg.content, {
+    ...copyProperties(msg),
+    headers: {
+      ...msg.properties.headers,
+      [RETRY_HEADERS.ORIGINAL_ROUTING_KEY]: getOriginalRoutingKey(msg),
+      [RETRY_HEADERS.DEAD_LETTER_REASON]: reason,
+      [RETRY_HEADERS.DEAD_LETTER_QUEUE]: queue,
+      [RETRY_HEADERS.DEAD_LETTERED_AT]: new Date().toISOString(),
+    },
+  });
+  channel.ack(msg);
+}
+
+/**
+ * Settles a message whose processing failed.
+ *
+ * Transient failures are republished to the delay queue for the next attempt
+ * and the original delivery is acked once the broker confirms the copy; when
+ * the queue's TTL expires the message is routed back to `queue` only.
+ * Permanent failures go to the DLQ with the error as a reason header, also
+ * acked only once confirmed; messages that have used up their retries are
+ * nacked without requeue so they land in the DLQ with an `x-death` record.
+ *
+ * Rejects if the copy is not confirmed, leaving the original unsettled.
+ */
+export async function handleFailure(
+  channel: Channel,
+  msg: ConsumeMessage,
+  queue: string,
+  error: unknown
+): Promise<FailureOutcome> {
+  const policy = getRetryPolicy();
+  const retryCount = getRetryCount(msg);
+
+  // Handlers catch their errors, so the handle span learns of them here
+  activeSpan()?.recordError(error);
+
+  if (isPermanentError(error)) {
+    await deadLetterWithReason(channel, msg, queue, (error as Error).message);
+    METRICS.deadLettered.inc({ queue, reason: 'permanent' });
+    return { action: 'dead-letter', reason: 'permanent', attempts: retryCount };
+  }
+
+  if (retryCount >= policy.maxAttempts) {
+    channel.nack(msg, false, false);
+    METRICS.deadLettered.inc({ queue, reason: 'max-attempts' });
+    return { action: 'dead-letter', reason: 'max-attempts', attempts: retryCount };
+  }
+
+  const attempt = retryCount + 1;
+  const delay = retryQueueTtl(attempt, policy);
+
+  await publishConfirmed(EXCHANGES.RETRY, retryRoutingKey(attempt, queue), msg.content, {
+    ...copyProperties(msg),
+    headers: {
+      // The delay queue dead-letters by every original routing key, so a CC
+      // kept here would route the retry to other queues as well
+      ...withoutCc(msg.properties.headers),
+      [RETRY_HEADERS.RETRY_COUNT]: attempt,
+      [RETRY_HEADERS.ORIGINAL_ROUTING_KEY]: getOriginalRoutingKey(msg),
+      [RETRY_HEADERS.LAST_ERROR]: (error as Error)?.message ?? String(error),
+    },
+  });
+  channel.ack(msg);
+  METRICS.retries.inc({ queue });
+
+  return { action: 'retry', attempt, maxAttempts: policy.maxAttempts, delay };
+}
+
+/**
+ * Formats a failure outcome for logging.
+ */
+export function describeFailureOutcome(outcome: FailureOutcome): string {
+  if (outcome.action === 'retry') {
+    return `retry ${outcome.attempt}/${outcome.maxAttempts} scheduled in ${outcome.delay}ms`;
+  }
+  return outcome.reason === 'permanent'
+    ? 'permanent error, sent to DLQ'
+    : `gave up after ${outcome.attempts} retries, sent to DLQ`;
+}
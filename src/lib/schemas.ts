@@ -0,0 +1,141 @@
+import { PermanentError } from './retry';
+import {
+  MessageEnvelope,
+  MessageType,
+  MESSAGE_TYPES,
+  SCHEMA_VERSIONS,
+  LEGACY_SCHEMA_VERSION,
+  createLocationId,
+} from './messages';
+import { settlementPeriodStart } from './carbon-api';
+
+// ============================================================================
+// Upcaster Registry
+// ============================================================================
+
+/** Converts a payload from one schema version to the next */
+export type Upcaster = (data: unknown) => unknown;
+
+/**
+ * Derives location.id from the country and city of a weather payload. Payloads
+ * too malformed to have them are left for validation to reject.
+ */
+function addLocationId(data: unknown): unknown {
+  const payload = data as { location?: { city?: unknown; country?: unknown } } | null;
+  const location = payload?.location;
+
+  if (typeof location?.city !== 'string' || typeof location?.country !== 'string') {
+    return data;
+  }
+
+  return {
+    ...payload,
+    location: { ...location, id: createLocationId(location.country, location.city) },
+  };
+}
+
+/**
+ * Derives periodStart from the fetch timestamp of a generation payload: the
+ * API always returns the period in progress, and backfilled history was
+ * stamped with its period start.
+ */
+function addGenerationPeriodStart(data: unknown): unknown {
+  const payload = data as { timestamp?: unknown } | null;
+  const fetchedAt = typeof payload?.timestamp === 'string' ? new Date(payload.timestamp) : null;
+  if (!fetchedAt || isNaN(fetchedAt.getTime())) return data;
+
+  return { ...payload, periodStart: settlementPeriodStart(fetchedAt) };
+}
+
+/**
+ * Upcasters per message type, keyed by the version they convert *from*.
+ * A type at version N needs an upcaster for every version 1..N-1.
+ */
+const UPCASTERS: Partial<Record<MessageType, Record<number, Upcaster>>> = {
+  // v2 added periodStart
+  [MESSAGE_TYPES.CARBON_GENERATION]: {
+    1: addGenerationPeriodStart,
+  },
+  // v2 added location.id
+  [MESSAGE_TYPES.WEATHER_CURRENT]: {
+    1: addLocationId,
+  },
+  [MESSAGE_TYPES.WEATHER_FORECAST]: {
+    1: addLocationId,
+  },
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Raised when an envelope claims a schema version this process cannot read,
+ * typically one published by a newer ingester. Retrying cannot help.
+ */
+export class UnsupportedSchemaVersionError extends PermanentError {
+  readonly type: string;
+  readonly version: unknown;
+
+  constructor(type: string, version: unknown, reason: string) {
+    super(`Unsupported schema version ${JSON.stringify(version)} for ${type}: ${reason}`);
+    this.name = 'UnsupportedSchemaVersionError';
+    this.type = type;
+    this.version = version;
+  }
+}
+
+// ============================================================================
+// Upcasting
+// ============================================================================
+
+function isKnownType(type: string): type is MessageType {
+  return type in SCHEMA_VERSIONS;
+}
+
+/** Returns the version an envelope was written with */
+export function getSchemaVersion(envelope: MessageEnvelope): unknown {
+  return envelope.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Converts an envelope of a known type to the latest schema version of that
+ * type by applying each registered upcaster in turn. Envelopes of unknown
+ * types are returned unchanged.
+ */
+export function upcastEnvelope(envelope: MessageEnvelope): MessageEnvelope {
+  if (!isKnownType(envelope.type)) {
+    return envelope;
+  }
+
+  const latest = SCHEMA_VERSIONS[envelope.type];
+  const version = getSchemaVersion(envelope);
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new UnsupportedSchemaVersionError(envelope.type, version, 'not a positive integer');
+  }
+  if (version > latest) {
+    throw new UnsupportedSchemaVersionError(
+      envelope.type,
+      version,
+      `newer than latest known version ${latest}`
+    );
+  }
+
+  let data = envelope.data;
+  const upcasters = UPCASTERS[envelope.type] ?? {};
+
+  for (let from = version; from < latest; from++) {
+    const upcaster = upcasters[from];
+    if (!upcaster) {
+      throw new UnsupportedSchemaVersionError(
+        envelope.type,
+        version,
+        `no upcaster registered from version ${from}`
+      );
+    }
+    data = upcaster(data);
+  }
+
+  return { ...envelope, schemaVersion: latest, data };
+}
@@ -0,0 +1,267 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import {
+  CarbonIntensityData,
+  CarbonGenerationData,
+  WeatherCurrentData,
+  WeatherForecastData,
+} from './messages';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * One row per half-hour period, fuel per reading, observation and forecast
+ * entry. Every table is keyed by the reading's natural key so redelivered or
+ * revised messages update rows instead of duplicating them.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS carbon_intensity (
+    period_start  TEXT PRIMARY KEY,
+    period_end    TEXT NOT NULL,
+    forecast      REAL NOT NULL,
+    actual        REAL,
+    intensity_index TEXT NOT NULL,
+    message_id    TEXT NOT NULL,
+    updated_at    TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS carbon_generation (
+    period_start  TEXT NOT NULL,
+    fuel          TEXT NOT NULL,
+    percentage    REAL NOT NULL,
+    fetched_at    TEXT NOT NULL,
+    message_id    TEXT NOT NULL,
+    updated_at    TEXT NOT NULL,
+    PRIMARY KEY (period_start, fuel)
+  );
+
+  CREATE TABLE IF NOT EXISTS weather_observation (
+    location_id   TEXT NOT NULL,
+    observed_at   TEXT NOT NULL,
+    city          TEXT NOT NULL,
+    country       TEXT NOT NULL,
+    lat           REAL NOT NULL,
+    lon           REAL NOT NULL,
+    temperature   REAL NOT NULL,
+    feels_like    REAL NOT NULL,
+    humidity      REAL NOT NULL,
+    pressure      REAL NOT NULL,
+    wind_speed    REAL NOT NULL,
+    wind_direction REAL NOT NULL,
+    condition_main TEXT NOT NULL,
+    condition_description TEXT NOT NULL,
+    message_id    TEXT NOT NULL,
+    updated_at    TEXT NOT NULL,
+    PRIMARY KEY (location_id, observed_at)
+  );
+
+  CREATE TABLE IF NOT EXISTS weather_forecast (
+    location_id   TEXT NOT NULL,
+    forecast_time TEXT NOT NULL,
+    fetched_at    TEXT NOT NULL,
+    temperature   REAL NOT NULL,
+    wind_speed    REAL NOT NULL,
+    wind_direction REAL NOT NULL,
+    cloud_cover   REAL NOT NULL,
+    condition_main TEXT NOT NULL,
+    condition_description TEXT NOT NULL,
+    message_id    TEXT NOT NULL,
+    updated_at    TEXT NOT NULL,
+    PRIMARY KEY (location_id, forecast_time)
+  );
+`;
+
+// A late actual always wins, but a replayed message without one never
+// erases it
+const UPSERT_INTENSITY = `
+  INSERT INTO carbon_intensity
+    (period_start, period_end, forecast, actual, intensity_index, message_id, updated_at)
+  VALUES
+    (@periodStart, @periodEnd, @forecast, @actual, @index, @messageId, @updatedAt)
+  ON CONFLICT (period_start) DO UPDATE SET
+    period_end = excluded.period_end,
+    forecast = excluded.forecast,
+    actual = COALESCE(excluded.actual, carbon_intensity.actual),
+    intensity_index = excluded.intensity_index,
+    message_id = excluded.message_id,
+    updated_at = excluded.updated_at
+`;
+
+// Re-polls and heartbeats of a period update its rows; a redelivered older
+// mix never replaces a newer one
+const UPSERT_GENERATION = `
+  INSERT INTO carbon_generation (period_start, fuel, percentage, fetched_at, message_id, updated_at)
+  VALUES (@periodStart, @fuel, @percentage, @fetchedAt, @messageId, @updatedAt)
+  ON CONFLICT (period_start, fuel) DO UPDATE SET
+    percentage = excluded.percentage,
+    fetched_at = excluded.fetched_at,
+    message_id = excluded.message_id,
+    updated_at = excluded.updated_at
+  WHERE excluded.fetched_at >= carbon_generation.fetched_at
+`;
+
+const UPSERT_OBSERVATION = `
+  INSERT INTO weather_observation
+    (location_id, observed_at, city, country, lat, lon, temperature, feels_like, humidity,
+     pressure, wind_speed, wind_direction, condition_main, condition_description,
+     message_id, updated_at)
+  VALUES
+    (@locationId, @observedAt, @city, @country, @lat, @lon, @temperature, @feelsLike, @humidity,
+     @pressure, @windSpeed, @windDirection, @conditionMain, @conditionDescription,
+     @messageId, @updatedAt)
+  ON CONFLICT (location_id, observed_at) DO UPDATE SET
+    city = excluded.city,
+    country = excluded.country,
+    lat = excluded.lat,
+    lon = excluded.lon,
+    temperature = excluded.temperature,
+    feels_like = excluded.feels_like,
+    humidity = excluded.humidity,
+    pressure = excluded.pressure,
+    wind_speed = excluded.wind_speed,
+    wind_direction = excluded.wind_direction,
+    condition_main = excluded.condition_main,
+    condition_description = excluded.condition_description,
+    message_id = excluded.message_id,
+    updated_at = excluded.updated_at
+`;
+
+// Only a newer forecast replaces an entry, so redelivering an old one is harmless
+const UPSERT_FORECAST = `
+  INSERT INTO weather_forecast
+    (location_id, forecast_time, fetched_at, temperature, wind_speed, wind_direction,
+     cloud_cover, condition_main, condition_description, message_id, updated_at)
+  VALUES
+    (@locationId, @forecastTime, @fetchedAt, @temperature, @windSpeed, @windDirection,
+     @cloudCover, @conditionMain, @conditionDescription, @messageId, @updatedAt)
+  ON CONFLICT (location_id, forecast_time) DO UPDATE SET
+    fetched_at = excluded.fetched_at,
+    temperature = excluded.temperature,
+    wind_speed = excluded.wind_speed,
+    wind_direction = excluded.wind_direction,
+    cloud_cover = excluded.cloud_cover,
+    condition_main = excluded.condition_main,
+    condition_description = excluded.condition_description,
+    message_id = excluded.message_id,
+    updated_at = excluded.updated_at
+  WHERE excluded.fetched_at >= weather_forecast.fetched_at
+`;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/** Number of rows written per table since the store was opened */
+export type WriteCounts = Record<
+  'intensity' | 'generation' | 'observations' | 'forecasts',
+  number
+>;
+
+/**
+ * SQLite store for feed readings. Each save runs in a single transaction and
+ * returns only once it has committed.
+ */
+export class TimeSeriesStore {
+  private db: Database.Database;
+  private counts: WriteCounts = { intensity: 0, generation: 0, observations: 0, forecasts: 0 };
+
+  private upsertIntensity: Database.Statement;
+  private upsertGeneration: Database.Statement;
+  private upsertObservation: Database.Statement;
+  private upsertForecast: Database.Statement;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path);
+    // WAL lets readers query the file while the consumer writes
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    this.upsertIntensity = this.db.prepare(UPSERT_INTENSITY);
+    this.upsertGeneration = this.db.prepare(UPSERT_GENERATION);
+    this.upsertObservation = this.db.prepare(UPSERT_OBSERVATION);
+    this.upsertForecast = this.db.prepare(UPSERT_FORECAST);
+  }
+
+  saveIntensity(messageId: string, data: CarbonIntensityData): void {
+    this.upsertIntensity.run({ ...data, messageId, updatedAt: new Date().toISOString() });
+    this.counts.intensity++;
+  }
+
+  saveGeneration(messageId: string, data: CarbonGenerationData): void {
+    const updatedAt = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const entry of data.mix) {
+        this.upsertGeneration.run({
+          periodStart: data.periodStart,
+          fuel: entry.fuel,
+          percentage: entry.percentage,
+          fetchedAt: data.timestamp,
+          messageId,
+          updatedAt,
+        });
+      }
+    })();
+    this.counts.generation += data.mix.length;
+  }
+
+  saveObservation(messageId: string, data: WeatherCurrentData): void {
+    this.upsertObservation.run({
+      locationId: data.location.id,
+      observedAt: data.observedAt,
+      city: data.location.city,
+      country: data.location.country,
+      lat: data.location.coordinates.lat,
+      lon: data.location.coordinates.lon,
+      temperature: data.temperature.current,
+      feelsLike: data.temperature.feelsLike,
+      humidity: data.humidity,
+      pressure: data.pressure,
+      windSpeed: data.wind.speed,
+      windDirection: data.wind.direction,
+      conditionMain: data.condition.main,
+      conditionDescription: data.condition.description,
+      messageId,
+      updatedAt: new Date().toISOString(),
+    });
+    this.counts.observations++;
+  }
+
+  saveForecast(messageId: string, data: WeatherForecastData): void {
+    const updatedAt = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const entry of data.entries) {
+        this.upsertForecast.run({
+          locationId: data.location.id,
+          forecastTime: entry.timestamp,
+          fetchedAt: data.fetchedAt,
+          temperature: entry.temperature,
+          windSpeed: entry.wind.speed,
+          windDirection: entry.wind.direction,
+          cloudCover: entry.cloudCover,
+          conditionMain: entry.condition.main,
+          conditionDescription: entry.condition.description,
+          messageId,
+          updatedAt,
+        });
+      }
+    })();
+    this.counts.forecasts += data.entries.length;
+  }
+
+  getWriteCounts(): WriteCounts {
+    return { ...this.counts };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -1,9 +1,13 @@
 import { getConnectionManager, Channel } from './connection';
+import { createLogger } from './logger';
+
+const log = createLogger('Topology');
 
 // Exchange definitions
 export const EXCHANGES = {
   TOPIC: 'feeds.topic',
   DLX: 'feeds.dlx',
+  RETRY: 'feeds.retry',
 } as const;
 
 // Queue definitions
@@ -11,6 +15,13 @@ export const QUEUES = {
   ALL: 'feeds.all',
   CARBON: 'feeds.carbon',
   WEATHER: 'feeds.weather',
+  PERSISTENCE: 'feeds.persistence',
+  AGGREGATOR: 'feeds.aggregator',
+  GREEN_WINDOW: 'feeds.green-window',
+  ALERTING: 'feeds.alerting',
+  CORRELATION: 'feeds.correlation',
+  WATCHDOG: 'feeds.watchdog',
+  QUERY_API: 'feeds.query-api',
   DLQ: 'feeds.dlq',
 } as const;
 
@@ -18,37 +29,226 @@ export const QUEUES = {
 export const ROUTING_KEYS = {
   CARBON_INTENSITY: 'feed.carbon.intensity',
   CARBON_GENERATION: 'feed.carbon.generation',
+  CARBON_FORECAST: 'feed.carbon.forecast',
   WEATHER_CURRENT: 'feed.weather.current',
   WEATHER_FORECAST: 'feed.weather.forecast',
+  CARBON_SUMMARY: 'feed.derived.carbon.summary',
+  CARBON_GREEN_WINDOW: 'feed.derived.carbon.green-window',
+  CORRELATION: 'feed.derived.correlation',
+  HEALTH_FEED_STALE: 'system.health.feed-stale',
+  HEALTH_FEED_RECOVERED: 'system.health.feed-recovered',
+  HEALTH_SOURCE_FAILING: 'system.health.source-failing',
+  HEALTH_SOURCE_RECOVERED: 'system.health.source-recovered',
 } as const;
 
+/** Routing key for one region's carbon intensity (e.g., feed.carbon.regional.13) */
+export function regionalRoutingKey(regionId: number): string {
+  return `feed.carbon.regional.${regionId}`;
+}
+
+/**
+ * Routing key for one weather location's messages
+ * (e.g., feed.weather.current.gb.london). Publishers also CC the base key so
+ * bindings on feed.weather.* keep matching.
+ */
+export function locationRoutingKey(baseKey: string, locationId: string): string {
+  return `${baseKey}.${locationId}`;
+}
+
+/** Routing key for an alert state change (e.g., alerts.fired) */
+export function alertRoutingKey(state: string): string {
+  return `alerts.${state}`;
+}
+
+/** Name of the optional queue holding a single region's messages */
+export function regionalQueueName(regionId: number): string {
+  return `feeds.carbon.regional.${regionId}`;
+}
+
+/**
+ * Region IDs that get their own queue, from CARBON_REGIONAL_QUEUES
+ * (comma-separated, e.g. "13,14"). Empty by default.
+ */
+export function getRegionalQueueIds(): number[] {
+  return (process.env.CARBON_REGIONAL_QUEUES || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0)
+    .map((id) => {
+      const regionId = parseInt(id, 10);
+      if (!Number.isInteger(regionId) || regionId < 1) {
+        throw new Error(`Invalid region ID in CARBON_REGIONAL_QUEUES: "${id}"`);
+      }
+      return regionId;
+    });
+}
+
 // Binding patterns
 const BINDINGS = {
   ALL: 'feed.#',
   CARBON: 'feed.carbon.*',
   WEATHER: 'feed.weather.*',
+  // Per-location weather messages are CC'd to the plain weather keys
+  PERSISTENCE: [
+    ROUTING_KEYS.CARBON_INTENSITY,
+    ROUTING_KEYS.CARBON_GENERATION,
+    ROUTING_KEYS.WEATHER_CURRENT,
+    ROUTING_KEYS.WEATHER_FORECAST,
+  ],
+  AGGREGATOR: [ROUTING_KEYS.CARBON_INTENSITY, ROUTING_KEYS.CARBON_GENERATION],
+  GREEN_WINDOW: ROUTING_KEYS.CARBON_FORECAST,
+  ALERTING: [
+    ROUTING_KEYS.CARBON_INTENSITY,
+    ROUTING_KEYS.CARBON_GENERATION,
+    ROUTING_KEYS.WEATHER_CURRENT,
+  ],
+  CORRELATION: [
+    ROUTING_KEYS.CARBON_INTENSITY,
+    ROUTING_KEYS.CARBON_GENERATION,
+    ROUTING_KEYS.WEATHER_CURRENT,
+  ],
+  WATCHDOG: 'feed.#',
+  QUERY_API: 'feed.#',
 } as const;
 
+// Queues that consumers read from and that can receive retried messages
+const CONSUMER_QUEUES = [
+  QUEUES.ALL,
+  QUEUES.CARBON,
+  QUEUES.WEATHER,
+  QUEUES.PERSISTENCE,
+  QUEUES.AGGREGATOR,
+  QUEUES.GREEN_WINDOW,
+  QUEUES.ALERTING,
+  QUEUES.CORRELATION,
+  QUEUES.WATCHDOG,
+  QUEUES.QUERY_API,
+] as const;
+
+// ============================================================================
+// Queue Limits
+// ============================================================================
+
+/**
+ * Reads the maximum length of a catch-all queue, which fills with every feed
+ * message while its consumer is down. Once full, the oldest messages are
+ * dropped; catch-all queues have no dead letter exchange, so the overflow is
+ * discarded rather than flooding the DLQ. Queue arguments cannot change once
+ * declared, so every process sharing a broker must use the same values.
+ */
+export function getQueueMaxLength(envVar: string, defaultLength: number): number {
+  return parseInt(process.env[envVar] || String(defaultLength), 10);
+}
+
+// ============================================================================
+// Retry Policy
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Retry attempts before a message is dead-lettered */
+  maxAttempts: number;
+  /** Delay before the first retry in ms */
+  baseDelay: number;
+  /** Cap on the delay of any single retry in ms */
+  maxDelay: number;
+  /** Extra delay added to every delay queue TTL in ms */
+  maxJitter: number;
+}
+
+/**
+ * Reads the retry policy from the environment. Delay queue TTLs are derived
+ * from it, so every process sharing a broker must use the same values.
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS || '3', 10),
+    baseDelay: parseInt(process.env.RETRY_BASE_DELAY_MS || '1000', 10),
+    maxDelay: parseInt(process.env.RETRY_MAX_DELAY_MS || '60000', 10),
+    maxJitter: parseInt(process.env.RETRY_MAX_JITTER_MS || '500', 10),
+  };
+}
+
+/** Backoff before the given retry attempt (1-based), before maxJitter */
+export function calculateRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = policy.baseDelay * Math.pow(2, attempt - 1);
+  return Math.min(delay, policy.maxDelay);
+}
+
+/**
+ * TTL of the delay queue for the given attempt, and so the delay every retry
+ * of that attempt waits. It is set on the queue, not per message: messages
+ * expire only at the head of a queue, so per-message TTLs of differing length
+ * would hold shorter ones behind longer ones.
+ */
+export function retryQueueTtl(attempt: number, policy: RetryPolicy): number {
+  return calculateRetryDelay(attempt, policy) + policy.maxJitter;
+}
+
+/** Name of the delay queue holding messages waiting for the given attempt */
+export function retryQueueName(attempt: number): string {
+  return `${EXCHANGES.RETRY}.${attempt}`;
+}
+
+/**
+ * Routing key for a retried message. The attempt selects the delay queue and
+ * the queue name routes it back to the one queue whose consumer failed.
+ */
+export function retryRoutingKey(attempt: number | '*', queue: string): string {
+  return `retry.${attempt}.${queue}`;
+}
+
+async function setupRetryTopology(channel: Channel, consumerQueues: string[]): Promise<void> {
+  const policy = getRetryPolicy();
+
+  await channel.assertExchange(EXCHANGES.RETRY, 'topic', {
+    durable: true,
+    autoDelete: false,
+  });
+  log.info(`Created exchange: ${EXCHANGES.RETRY} (topic)`);
+
+  // Each delay queue holds messages for one attempt, then dead-letters them
+  // back to the topic exchange with their retry routing key intact
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    const queue = retryQueueName(attempt);
+    const ttl = retryQueueTtl(attempt, policy);
+
+    await channel.assertQueue(queue, {
+      durable: true,
+      messageTtl: ttl,
+      deadLetterExchange: EXCHANGES.TOPIC,
+    });
+    await channel.bindQueue(queue, EXCHANGES.RETRY, `retry.${attempt}.#`);
+    log.info(`Created delay queue: ${queue} (ttl=${ttl}ms)`);
+  }
+
+  // Route expired retries back to the queue they came from
+  for (const queue of consumerQueues) {
+    const pattern = retryRoutingKey('*', queue);
+    await channel.bindQueue(queue, EXCHANGES.TOPIC, pattern);
+    log.info(`Bound ${queue} to ${EXCHANGES.TOPIC} with pattern "${pattern}"`);
+  }
+}
+
 export async function setupTopology(channel: Channel): Promise<void> {
-  console.log('[Topology] Setting up RabbitMQ topology...');
+  log.info('Setting up RabbitMQ topology...');
 
   // Create exchanges
-  console.log('[Topology] Creating exchanges...');
+  log.info('Creating exchanges...');
 
   await channel.assertExchange(EXCHANGES.TOPIC, 'topic', {
     durable: true,
     autoDelete: false,
   });
-  console.log(`[Topology] Created exchange: ${EXCHANGES.TOPIC} (topic)`);
+  log.info(`Created exchange: ${EXCHANGES.TOPIC} (topic)`);
 
   await channel.assertExchange(EXCHANGES.DLX, 'fanout', {
     durable: true,
     autoDelete: false,
   });
-  console.log(`[Topology] Created exchange: ${EXCHANGES.DLX} (fanout)`);
+  log.info(`Created exchange: ${EXCHANGES.DLX} (fanout)`);
 
   // Create queues with dead letter exchange
-  console.log('[Topology] Creating queues...');
+  log.info('Creating queues...');
 
   const queueOptions = {
     durable: true,
@@ -56,35 +256,124 @@ export async function setupTopology(channel: Channel): Promise<void> {
   };
 
   await channel.assertQueue(QUEUES.ALL, queueOptions);
-  console.log(`[Topology] Created queue: ${QUEUES.ALL}`);
+  log.info(`Created queue: ${QUEUES.ALL}`);
 
   await channel.assertQueue(QUEUES.CARBON, queueOptions);
-  console.log(`[Topology] Created queue: ${QUEUES.CARBON}`);
+  log.info(`Created queue: ${QUEUES.CARBON}`);
 
   await channel.assertQueue(QUEUES.WEATHER, queueOptions);
-  console.log(`[Topology] Created queue: ${QUEUES.WEATHER}`);
+  log.info(`Created queue: ${QUEUES.WEATHER}`);
+
+  await channel.assertQueue(QUEUES.PERSISTENCE, queueOptions);
+  log.info(`Created queue: ${QUEUES.PERSISTENCE}`);
+
+  // Only one aggregator at a time may hold rolling windows, the rest stand by
+  await channel.assertQueue(QUEUES.AGGREGATOR, {
+    ...queueOptions,
+    arguments: { 'x-single-active-consumer': true },
+  });
+  log.info(`Created queue: ${QUEUES.AGGREGATOR} (single active consumer)`);
+
+  await channel.assertQueue(QUEUES.GREEN_WINDOW, queueOptions);
+  log.info(`Created queue: ${QUEUES.GREEN_WINDOW}`);
+
+  await channel.assertQueue(QUEUES.ALERTING, queueOptions);
+  log.info(`Created queue: ${QUEUES.ALERTING}`);
+
+  // Joins need the whole carbon and weather streams, so one consumer at a time
+  await channel.assertQueue(QUEUES.CORRELATION, {
+    ...queueOptions,
+    arguments: { 'x-single-active-consumer': true },
+  });
+  log.info(`Created queue: ${QUEUES.CORRELATION} (single active consumer)`);
+
+  // Only fresh messages matter to the watchdog, so a stopped one keeps a
+  // bounded backlog. One consumer at a time sees every feed and owns the
+  // stale/recovered state
+  const watchdogMaxLength = getQueueMaxLength('WATCHDOG_QUEUE_MAX_LENGTH', 10000);
+  await channel.assertQueue(QUEUES.WATCHDOG, {
+    durable: true,
+    maxLength: watchdogMaxLength,
+    arguments: { 'x-single-active-consumer': true },
+  });
+  log.info(`Created queue: ${QUEUES.WATCHDOG} (single active consumer, max length ${watchdogMaxLength})`);
+
+  // Sized to hold roughly a retention window of readings for a stopped query
+  // API. One consumer at a time holds every reading
+  const queryApiMaxLength = getQueueMaxLength('QUERY_API_QUEUE_MAX_LENGTH', 50000);
+  await channel.assertQueue(QUEUES.QUERY_API, {
+    durable: true,
+    maxLength: queryApiMaxLength,
+    arguments: { 'x-single-active-consumer': true },
+  });
+  log.info(`Created queue: ${QUEUES.QUERY_API} (single active consumer, max length ${queryApiMaxLength})`);
 
   // DLQ doesn't need a dead letter exchange itself
   await channel.assertQueue(QUEUES.DLQ, { durable: true });
-  console.log(`[Topology] Created queue: ${QUEUES.DLQ}`);
+  log.info(`Created queue: ${QUEUES.DLQ}`);
 
   // Create bindings
-  console.log('[Topology] Creating bindings...');
+  log.info('Creating bindings...');
 
   await channel.bindQueue(QUEUES.ALL, EXCHANGES.TOPIC, BINDINGS.ALL);
-  console.log(`[Topology] Bound ${QUEUES.ALL} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.ALL}"`);
+  log.info(`Bound ${QUEUES.ALL} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.ALL}"`);
 
   await channel.bindQueue(QUEUES.CARBON, EXCHANGES.TOPIC, BINDINGS.CARBON);
-  console.log(`[Topology] Bound ${QUEUES.CARBON} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.CARBON}"`);
+  log.info(`Bound ${QUEUES.CARBON} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.CARBON}"`);
 
   await channel.bindQueue(QUEUES.WEATHER, EXCHANGES.TOPIC, BINDINGS.WEATHER);
-  console.log(`[Topology] Bound ${QUEUES.WEATHER} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.WEATHER}"`);
+  log.info(`Bound ${QUEUES.WEATHER} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.WEATHER}"`);
+
+  for (const routingKey of BINDINGS.PERSISTENCE) {
+    await channel.bindQueue(QUEUES.PERSISTENCE, EXCHANGES.TOPIC, routingKey);
+    log.info(`Bound ${QUEUES.PERSISTENCE} to ${EXCHANGES.TOPIC} with key "${routingKey}"`);
+  }
+
+  for (const routingKey of BINDINGS.AGGREGATOR) {
+    await channel.bindQueue(QUEUES.AGGREGATOR, EXCHANGES.TOPIC, routingKey);
+    log.info(`Bound ${QUEUES.AGGREGATOR} to ${EXCHANGES.TOPIC} with key "${routingKey}"`);
+  }
+
+  await channel.bindQueue(QUEUES.GREEN_WINDOW, EXCHANGES.TOPIC, BINDINGS.GREEN_WINDOW);
+  log.info(`Bound ${QUEUES.GREEN_WINDOW} to ${EXCHANGES.TOPIC} with key "${BINDINGS.GREEN_WINDOW}"`);
+
+  for (const routingKey of BINDINGS.ALERTING) {
+    await channel.bindQueue(QUEUES.ALERTING, EXCHANGES.TOPIC, routingKey);
+    log.info(`Bound ${QUEUES.ALERTING} to ${EXCHANGES.TOPIC} with key "${routingKey}"`);
+  }
+
+  for (const routingKey of BINDINGS.CORRELATION) {
+    await channel.bindQueue(QUEUES.CORRELATION, EXCHANGES.TOPIC, routingKey);
+    log.info(`Bound ${QUEUES.CORRELATION} to ${EXCHANGES.TOPIC} with key "${routingKey}"`);
+  }
+
+  await channel.bindQueue(QUEUES.WATCHDOG, EXCHANGES.TOPIC, BINDINGS.WATCHDOG);
+  log.info(`Bound ${QUEUES.WATCHDOG} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.WATCHDOG}"`);
+
+  await channel.bindQueue(QUEUES.QUERY_API, EXCHANGES.TOPIC, BINDINGS.QUERY_API);
+  log.info(`Bound ${QUEUES.QUERY_API} to ${EXCHANGES.TOPIC} with pattern "${BINDINGS.QUERY_API}"`);
 
   // Bind DLQ to the dead letter exchange
   await channel.bindQueue(QUEUES.DLQ, EXCHANGES.DLX, '');
-  console.log(`[Topology] Bound ${QUEUES.DLQ} to ${EXCHANGES.DLX}`);
+  log.info(`Bound ${QUEUES.DLQ} to ${EXCHANGES.DLX}`);
+
+  // Create optional per-region queues
+  const regionalQueues: string[] = [];
+  for (const regionId of getRegionalQueueIds()) {
+    const queue = regionalQueueName(regionId);
+    const routingKey = regionalRoutingKey(regionId);
+
+    await channel.assertQueue(queue, queueOptions);
+    await channel.bindQueue(queue, EXCHANGES.TOPIC, routingKey);
+    log.info(`Created queue: ${queue} bound with "${routingKey}"`);
+    regionalQueues.push(queue);
+  }
+
+  // Create delay queues for retries
+  log.info('Creating retry delay queues...');
+  await setupRetryTopology(channel, [...CONSUMER_QUEUES, ...regionalQueues]);
 
-  console.log('[Topology] Setup complete!');
+  log.info('Setup complete!');
 }
 
 // Standalone script to set up topology
@@ -95,11 +384,11 @@ async function main(): Promise<void> {
     const channel = await manager.getChannel();
     await setupTopology(channel);
 
-    console.log('\n[Topology] Topology setup successful!');
-    console.log('[Topology] You can verify in RabbitMQ Management UI at http://localhost:15672');
-    console.log('[Topology] Default credentials: guest / guest');
+    log.info('Topology setup successful!');
+    log.info('You can verify in RabbitMQ Management UI at http://localhost:15672');
+    log.info('Default credentials: guest / guest');
   } catch (error) {
-    console.error('[Topology] Setup failed:', (error as Error).message);
+    log.error('Setup failed', { error });
     process.exit(1);
   } finally {
     await manager.close();
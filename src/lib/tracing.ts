@@ -0,0 +1,379 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import { createLogger } from './logger';
+
+// ============================================================================
+// Trace Context
+// ============================================================================
+
+/** AMQP header carrying the W3C trace context of the publish span */
+export const TRACE_HEADERS = {
+  TRACEPARENT: 'traceparent',
+} as const;
+
+/** Identifies a span across processes */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** W3C trace flags; bit 0 is "sampled" */
+  traceFlags: number;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/** Parses a version 00 traceparent; anything else, or all-zero IDs, is null */
+export function parseTraceparent(value: unknown): SpanContext | null {
+  if (typeof value !== 'string') return null;
+
+  const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+
+  return { traceId: match[1], spanId: match[2], traceFlags: parseInt(match[3], 16) };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+/** The trace context a message was published with, if it carries one */
+export function extractTraceContext(headers: Record<string, unknown> | undefined): SpanContext | null {
+  return parseTraceparent(headers?.[TRACE_HEADERS.TRACEPARENT]);
+}
+
+// ============================================================================
+// Spans
+// ============================================================================
+
+/** Span kinds as OTLP defines them, minus server */
+export const SPAN_KINDS = {
+  internal: 1,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+} as const;
+
+export type SpanKind = keyof typeof SPAN_KINDS;
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** A span once ended, as handed to the exporter */
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  context: SpanContext;
+  parentSpanId: string | null;
+  /** Epoch time in ns */
+  startTime: bigint;
+  endTime: bigint;
+  attributes: SpanAttributes;
+  /** Set once an error was recorded */
+  error: string | null;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  /**
+   * Parent span. Defaults to the active span; null starts a new trace, as does
+   * undefined outside any span.
+   */
+  parent?: SpanContext | null;
+  attributes?: SpanAttributes;
+}
+
+function nowNs(): bigint {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6));
+}
+
+/** A timed operation within a trace. Ending it hands it to the exporter. */
+export class Span {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly context: SpanContext;
+  private parentSpanId: string | null;
+  private startTime = nowNs();
+  private attributes: SpanAttributes;
+  private error: string | null = null;
+  private isEnded = false;
+
+  constructor(name: string, options: SpanOptions = {}) {
+    const parent = options.parent === undefined ? activeSpan()?.context ?? null : options.parent;
+
+    this.name = name;
+    this.kind = options.kind ?? 'internal';
+    this.parentSpanId = parent?.spanId ?? null;
+    this.context = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      traceFlags: parent?.traceFlags ?? 1,
+    };
+    this.attributes = { ...options.attributes };
+  }
+
+  setAttribute(key: string, value: string | number | boolean): void {
+    this.attributes[key] = value;
+  }
+
+  /** Marks the span failed; the last error recorded wins */
+  recordError(error: unknown): void {
+    this.error = (error as Error)?.message ?? String(error);
+  }
+
+  end(): void {
+    if (this.isEnded) return;
+    this.isEnded = true;
+
+    // Unsampled traces are propagated but not exported
+    if ((this.context.traceFlags & 1) === 0) return;
+
+    tracer.exporter?.export({
+      name: this.name,
+      kind: this.kind,
+      context: this.context,
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime: nowNs(),
+      attributes: this.attributes,
+      error: this.error,
+    });
+  }
+}
+
+const activeSpans = new AsyncLocalStorage<Span>();
+
+/** The span the current code runs in, if any */
+export function activeSpan(): Span | undefined {
+  return activeSpans.getStore();
+}
+
+export function startSpan(name: string, options: SpanOptions = {}): Span {
+  return new Span(name, options);
+}
+
+/**
+ * Runs fn in a new span, which is active for everything fn awaits: spans
+ * started and messages published within become its children. The span ends
+ * when fn settles and is marked failed if fn throws.
+ */
+export async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => T | Promise<T>
+): Promise<T> {
+  const span = startSpan(name, options);
+
+  try {
+    return await activeSpans.run(span, () => fn(span));
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+/** Receives every ended span of the process */
+export interface SpanExporter {
+  export(span: FinishedSpan): void;
+  /** Sends anything still buffered */
+  shutdown(): Promise<void>;
+}
+
+/** Logs each span as it ends */
+export class ConsoleSpanExporter implements SpanExporter {
+  private log = createLogger('Tracing');
+
+  export(span: FinishedSpan): void {
+    const durationMs = Number(span.endTime - span.startTime) / 1e6;
+    this.log.info(`${span.name} ${durationMs.toFixed(1)}ms${span.error ? ' (error)' : ''}`, {
+      traceId: span.context.traceId,
+      spanId: span.context.spanId,
+      parentSpanId: span.parentSpanId ?? undefined,
+      kind: span.kind,
+      error: span.error ?? undefined,
+      ...span.attributes,
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing buffered
+  }
+}
+
+export interface OtlpHttpSpanExporterOptions {
+  /** Collector base URL; spans are posted to <endpoint>/v1/traces */
+  endpoint: string;
+  serviceName: string;
+  /** How often buffered spans are sent in ms */
+  exportInterval?: number;
+  /** Spans sent per request; a full batch is sent right away */
+  maxBatchSize?: number;
+  /** Spans buffered while the collector is slow; the oldest are dropped */
+  maxQueueSize?: number;
+  timeout?: number;
+}
+
+type OtlpAnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+function toOtlpValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): { key: string; value: OtlpAnyValue }[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector as OTLP/HTTP JSON, in batches. A
+ * failed request is logged and its spans dropped; tracing never holds up
+ * message processing.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private url: string;
+  private serviceName: string;
+  private maxBatchSize: number;
+  private maxQueueSize: number;
+  private timeout: number;
+  private queue: FinishedSpan[] = [];
+  private dropped = 0;
+  private timer: NodeJS.Timeout;
+  private pending: Promise<void> = Promise.resolve();
+  private log = createLogger('Tracing');
+
+  constructor(options: OtlpHttpSpanExporterOptions) {
+    this.url = `${options.endpoint.replace(/\/+$/, '')}/v1/traces`;
+    this.serviceName = options.serviceName;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.maxQueueSize = options.maxQueueSize ?? 2048;
+    this.timeout = options.timeout ?? 5000;
+
+    this.timer = setInterval(() => this.flush(), options.exportInterval ?? 5000);
+    this.timer.unref();
+  }
+
+  export(span: FinishedSpan): void {
+    this.queue.push(span);
+    if (this.queue.length > this.maxQueueSize) {
+      this.queue.shift();
+      this.dropped++;
+    }
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush();
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    while (this.queue.length > 0) {
+      await this.flush();
+    }
+    await this.pending;
+  }
+
+  /** Sends one batch; requests go out one at a time */
+  private flush(): Promise<void> {
+    const batch = this.queue.splice(0, this.maxBatchSize);
+    if (batch.length === 0) return this.pending;
+
+    this.pending = this.pending.then(() =>
+      this.send(batch).catch((error) => {
+        this.log.warn(`Dropped ${batch.length} span(s), export to ${this.url} failed`, { error });
+      })
+    );
+    return this.pending;
+  }
+
+  private async send(batch: FinishedSpan[]): Promise<void> {
+    if (this.dropped > 0) {
+      this.log.warn(`Dropped ${this.dropped} span(s), export queue full`);
+      this.dropped = 0;
+    }
+
+    const body = {
+      resourceSpans: [
+        {
+          resource: { attributes: toOtlpAttributes({ 'service.name': this.serviceName }) },
+          scopeSpans: [
+            {
+              scope: { name: 'carbon-feed-hub' },
+              spans: batch.map((span) => ({
+                traceId: span.context.traceId,
+                spanId: span.context.spanId,
+                parentSpanId: span.parentSpanId ?? undefined,
+                name: span.name,
+                kind: SPAN_KINDS[span.kind],
+                startTimeUnixNano: span.startTime.toString(),
+                endTimeUnixNano: span.endTime.toString(),
+                attributes: toOtlpAttributes(span.attributes),
+                status: span.error ? { code: 2, message: span.error } : { code: 1 },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+/** Exporters selectable with TRACING_EXPORTER */
+export const TRACING_EXPORTERS = ['none', 'console', 'otlp'] as const;
+export type TracingExporterName = (typeof TRACING_EXPORTERS)[number];
+
+const tracer: { exporter: SpanExporter | null } = { exporter: null };
+
+function createExporter(serviceName: string): SpanExporter | null {
+  const name = (process.env.TRACING_EXPORTER || 'none').trim().toLowerCase();
+
+  switch (name) {
+    case 'none':
+      return null;
+    case 'console':
+      return new ConsoleSpanExporter();
+    case 'otlp':
+      return new OtlpHttpSpanExporter({
+        endpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318',
+        serviceName,
+        exportInterval: parseInt(process.env.TRACING_EXPORT_INTERVAL_MS || '5000', 10),
+      });
+    default:
+      throw new Error(`Unknown tracing exporter "${name}" (expected ${TRACING_EXPORTERS.join(', ')})`);
+  }
+}
+
+/**
+ * Sets where ended spans go: the given exporter, or the one TRACING_EXPORTER
+ * selects. Without this, spans are still created and propagated in message
+ * headers, just not exported.
+ */
+export function initTracing(serviceName: string, exporter?: SpanExporter): void {
+  tracer.exporter = exporter ?? createExporter(serviceName);
+}
+
+/** Exports anything still buffered; call before the process exits */
+export async function shutdownTracing(): Promise<void> {
+  const { exporter } = tracer;
+  tracer.exporter = null;
+  await exporter?.shutdown();
+}
@@ -0,0 +1,551 @@
+import { PermanentError } from './retry';
+import { upcastEnvelope } from './schemas';
+import { LOCATION_ID_PATTERN } from './locations';
+import {
+  MessageEnvelope,
+  MessageType,
+  CarbonIntensityData,
+  CarbonGenerationData,
+  CarbonForecastData,
+  RegionalCarbonIntensityData,
+  WeatherCurrentData,
+  WeatherForecastData,
+  CarbonSummaryData,
+  GreenWindowData,
+  AlertData,
+  CorrelationData,
+  FeedHealthData,
+  SourceHealthData,
+  FEED_HEALTH_STATUSES,
+  SOURCE_HEALTH_STATUSES,
+  ALERT_STATES,
+  ALERT_SEVERITIES,
+  CARBON_INTENSITY_INDEXES,
+  CARBON_FORECAST_HORIZONS,
+  FUEL_TYPES,
+  SUMMARY_WINDOWS,
+  MESSAGE_TYPES,
+  SCHEMA_VERSIONS,
+  LEGACY_SCHEMA_VERSION,
+} from './messages';
+
+// ============================================================================
+// Validation Errors
+// ============================================================================
+
+/** A single problem found while validating a value */
+export interface ValidationIssue {
+  /** Dotted path to the offending field (e.g., "data.mix[2].fuel") */
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a message or payload does not match its schema. It is a
+ * permanent error: retrying the same bytes can never succeed.
+ */
+export class ValidationError extends PermanentError {
+  readonly issues: ValidationIssue[];
+
+  constructor(subject: string, issues: ValidationIssue[]) {
+    const details = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`).join('; ');
+    super(`Invalid ${subject}: ${details}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Field Checks
+// ============================================================================
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/** Collects issues for one value so all problems are reported together */
+class Checker {
+  readonly issues: ValidationIssue[] = [];
+
+  fail(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  object(value: unknown, path: string): value is Record<string, unknown> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return true;
+    }
+    this.fail(path, `expected object, got ${describe(value)}`);
+    return false;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    this.fail(path, `expected array, got ${describe(value)}`);
+    return false;
+  }
+
+  string(value: unknown, path: string): void {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(path, `expected non-empty string, got ${describe(value)}`);
+    }
+  }
+
+  timestamp(value: unknown, path: string): void {
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+      this.fail(path, `expected ISO 8601 timestamp, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  number(value: unknown, path: string, min = -Infinity, max = Infinity): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, `expected number, got ${describe(value)}`);
+    } else if (value < min || value > max) {
+      this.fail(path, `expected value between ${min} and ${max}, got ${value}`);
+    }
+  }
+
+  nullableNumber(value: unknown, path: string, min = -Infinity, max = Infinity): void {
+    if (value !== null) {
+      this.number(value, path, min, max);
+    }
+  }
+
+  oneOf(value: unknown, path: string, allowed: readonly string[]): void {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.fail(path, `expected one of ${allowed.map((a) => `"${a}"`).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  throwIfInvalid(subject: string): void {
+    if (this.issues.length > 0) {
+      throw new ValidationError(subject, this.issues);
+    }
+  }
+}
+
+// ============================================================================
+// Payload Schemas
+// ============================================================================
+
+type PayloadCheck = (check: Checker, data: unknown, path: string) => void;
+
+const checkCarbonIntensity: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.timestamp(data.periodStart, `${path}.periodStart`);
+  check.timestamp(data.periodEnd, `${path}.periodEnd`);
+  check.number(data.forecast, `${path}.forecast`, 0);
+  check.nullableNumber(data.actual, `${path}.actual`, 0);
+  check.oneOf(data.index, `${path}.index`, CARBON_INTENSITY_INDEXES);
+};
+
+function checkGenerationMix(check: Checker, mix: unknown, path: string): void {
+  if (!check.array(mix, path)) return;
+
+  mix.forEach((entry, i) => {
+    const entryPath = `${path}[${i}]`;
+    if (!check.object(entry, entryPath)) return;
+    check.oneOf(entry.fuel, `${entryPath}.fuel`, FUEL_TYPES);
+    check.number(entry.percentage, `${entryPath}.percentage`, 0, 100);
+  });
+}
+
+const checkCarbonGeneration: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.timestamp(data.periodStart, `${path}.periodStart`);
+  check.timestamp(data.timestamp, `${path}.timestamp`);
+  checkGenerationMix(check, data.mix, `${path}.mix`);
+};
+
+const checkRegionalCarbonIntensity: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  if (typeof data.regionId !== 'number' || !Number.isInteger(data.regionId) || data.regionId < 1) {
+    check.fail(`${path}.regionId`, `expected positive integer, got ${JSON.stringify(data.regionId)}`);
+  }
+  check.string(data.dnoRegion, `${path}.dnoRegion`);
+  check.string(data.shortName, `${path}.shortName`);
+  if (check.array(data.postcodeAreas, `${path}.postcodeAreas`)) {
+    data.postcodeAreas.forEach((area, i) => check.string(area, `${path}.postcodeAreas[${i}]`));
+  }
+  check.timestamp(data.periodStart, `${path}.periodStart`);
+  check.timestamp(data.periodEnd, `${path}.periodEnd`);
+  check.number(data.forecast, `${path}.forecast`, 0);
+  check.oneOf(data.index, `${path}.index`, CARBON_INTENSITY_INDEXES);
+  checkGenerationMix(check, data.mix, `${path}.mix`);
+};
+
+const checkCarbonForecast: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.oneOf(data.horizon, `${path}.horizon`, CARBON_FORECAST_HORIZONS);
+  check.timestamp(data.fetchedAt, `${path}.fetchedAt`);
+  if (!check.array(data.periods, `${path}.periods`)) return;
+
+  data.periods.forEach((period, i) => {
+    const periodPath = `${path}.periods[${i}]`;
+    if (!check.object(period, periodPath)) return;
+    check.timestamp(period.periodStart, `${periodPath}.periodStart`);
+    check.timestamp(period.periodEnd, `${periodPath}.periodEnd`);
+    check.number(period.forecast, `${periodPath}.forecast`, 0);
+    check.oneOf(period.index, `${periodPath}.index`, CARBON_INTENSITY_INDEXES);
+  });
+};
+
+function checkWeatherLocation(check: Checker, location: unknown, path: string): void {
+  if (!check.object(location, path)) return;
+
+  // The ID becomes two routing key segments, so it must not contain other dots
+  if (typeof location.id !== 'string' || !LOCATION_ID_PATTERN.test(location.id)) {
+    check.fail(`${path}.id`, `expected "<country>.<city-slug>", got ${JSON.stringify(location.id)}`);
+  }
+  check.string(location.city, `${path}.city`);
+  check.string(location.country, `${path}.country`);
+  if (check.object(location.coordinates, `${path}.coordinates`)) {
+    check.number(location.coordinates.lat, `${path}.coordinates.lat`, -90, 90);
+    check.number(location.coordinates.lon, `${path}.coordinates.lon`, -180, 180);
+  }
+}
+
+function checkWind(check: Checker, wind: unknown, path: string): void {
+  if (!check.object(wind, path)) return;
+
+  check.number(wind.speed, `${path}.speed`, 0);
+  check.number(wind.direction, `${path}.direction`, 0, 360);
+}
+
+function checkCondition(check: Checker, condition: unknown, path: string): void {
+  if (!check.object(condition, path)) return;
+
+  check.string(condition.main, `${path}.main`);
+  check.string(condition.description, `${path}.description`);
+}
+
+const checkWeatherCurrent: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  checkWeatherLocation(check, data.location, `${path}.location`);
+
+  check.timestamp(data.observedAt, `${path}.observedAt`);
+
+  if (check.object(data.temperature, `${path}.temperature`)) {
+    check.number(data.temperature.current, `${path}.temperature.current`);
+    check.number(data.temperature.feelsLike, `${path}.temperature.feelsLike`);
+  }
+
+  check.number(data.humidity, `${path}.humidity`, 0, 100);
+  check.number(data.pressure, `${path}.pressure`, 0);
+
+  checkWind(check, data.wind, `${path}.wind`);
+  checkCondition(check, data.condition, `${path}.condition`);
+};
+
+const checkWeatherForecast: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  checkWeatherLocation(check, data.location, `${path}.location`);
+  check.timestamp(data.fetchedAt, `${path}.fetchedAt`);
+  if (!check.array(data.entries, `${path}.entries`)) return;
+
+  data.entries.forEach((entry, i) => {
+    const entryPath = `${path}.entries[${i}]`;
+    if (!check.object(entry, entryPath)) return;
+    check.timestamp(entry.timestamp, `${entryPath}.timestamp`);
+    check.number(entry.temperature, `${entryPath}.temperature`);
+    checkWind(check, entry.wind, `${entryPath}.wind`);
+    check.number(entry.cloudCover, `${entryPath}.cloudCover`, 0, 100);
+    checkCondition(check, entry.condition, `${entryPath}.condition`);
+  });
+};
+
+function checkIntensityWindow(check: Checker, stats: unknown, path: string): void {
+  if (!check.object(stats, path)) return;
+
+  check.number(stats.periods, `${path}.periods`, 0);
+  check.nullableNumber(stats.averageForecast, `${path}.averageForecast`, 0);
+  check.nullableNumber(stats.averageActual, `${path}.averageActual`, 0);
+  check.nullableNumber(stats.meanAbsoluteError, `${path}.meanAbsoluteError`, 0);
+}
+
+function checkGenerationWindow(check: Checker, stats: unknown, path: string): void {
+  if (!check.object(stats, path)) return;
+
+  check.number(stats.readings, `${path}.readings`, 0);
+  checkGenerationMix(check, stats.averageMix, `${path}.averageMix`);
+  check.nullableNumber(stats.renewablePercentage, `${path}.renewablePercentage`, 0, 100);
+}
+
+const checkCarbonSummary: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.timestamp(data.generatedAt, `${path}.generatedAt`);
+  if (!check.array(data.windows, `${path}.windows`)) return;
+
+  data.windows.forEach((window, i) => {
+    const windowPath = `${path}.windows[${i}]`;
+    if (!check.object(window, windowPath)) return;
+    check.oneOf(window.window, `${windowPath}.window`, SUMMARY_WINDOWS);
+    check.timestamp(window.from, `${windowPath}.from`);
+    check.timestamp(window.to, `${windowPath}.to`);
+    checkIntensityWindow(check, window.intensity, `${windowPath}.intensity`);
+    checkGenerationWindow(check, window.generation, `${windowPath}.generation`);
+  });
+};
+
+const checkGreenWindow: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.oneOf(data.horizon, `${path}.horizon`, CARBON_FORECAST_HORIZONS);
+  check.timestamp(data.forecastFetchedAt, `${path}.forecastFetchedAt`);
+  check.number(data.windowHours, `${path}.windowHours`, 0.5);
+  check.nullableNumber(data.horizonAverage, `${path}.horizonAverage`, 0);
+  if (!check.array(data.windows, `${path}.windows`)) return;
+
+  data.windows.forEach((window, i) => {
+    const windowPath = `${path}.windows[${i}]`;
+    if (!check.object(window, windowPath)) return;
+    check.number(window.rank, `${windowPath}.rank`, 1);
+    check.timestamp(window.start, `${windowPath}.start`);
+    check.timestamp(window.end, `${windowPath}.end`);
+    check.number(window.averageForecast, `${windowPath}.averageForecast`, 0);
+    check.number(window.peakForecast, `${windowPath}.peakForecast`, 0);
+    check.oneOf(window.index, `${windowPath}.index`, CARBON_INTENSITY_INDEXES);
+  });
+};
+
+function checkCorrelationStats(check: Checker, stats: unknown, path: string): void {
+  if (!check.object(stats, path)) return;
+
+  check.number(stats.samples, `${path}.samples`, 0);
+  check.nullableNumber(stats.coefficient, `${path}.coefficient`, -1, 1);
+}
+
+const checkCorrelation: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.timestamp(data.periodStart, `${path}.periodStart`);
+  check.timestamp(data.periodEnd, `${path}.periodEnd`);
+
+  if (check.object(data.carbon, `${path}.carbon`)) {
+    const carbon = data.carbon;
+    check.nullableNumber(carbon.intensity, `${path}.carbon.intensity`, 0);
+    if (typeof carbon.intensityIsActual !== 'boolean') {
+      check.fail(`${path}.carbon.intensityIsActual`, `expected boolean, got ${describe(carbon.intensityIsActual)}`);
+    }
+    check.nullableNumber(carbon.windPercentage, `${path}.carbon.windPercentage`, 0, 100);
+    check.nullableNumber(carbon.renewablePercentage, `${path}.carbon.renewablePercentage`, 0, 100);
+  }
+
+  if (check.object(data.weather, `${path}.weather`)) {
+    const weather = data.weather;
+    check.number(weather.windSpeed, `${path}.weather.windSpeed`, 0);
+    check.number(weather.temperature, `${path}.weather.temperature`);
+    if (check.array(weather.observations, `${path}.weather.observations`)) {
+      weather.observations.forEach((observation, i) => {
+        const observationPath = `${path}.weather.observations[${i}]`;
+        if (!check.object(observation, observationPath)) return;
+        check.string(observation.locationId, `${observationPath}.locationId`);
+        check.timestamp(observation.observedAt, `${observationPath}.observedAt`);
+        check.number(observation.windSpeed, `${observationPath}.windSpeed`, 0);
+        check.number(observation.temperature, `${observationPath}.temperature`);
+      });
+    }
+  }
+
+  if (check.object(data.correlation, `${path}.correlation`)) {
+    checkCorrelationStats(check, data.correlation.windSpeedVsWindShare, `${path}.correlation.windSpeedVsWindShare`);
+    checkCorrelationStats(check, data.correlation.temperatureVsIntensity, `${path}.correlation.temperatureVsIntensity`);
+  }
+};
+
+const checkAlert: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.string(data.alertId, `${path}.alertId`);
+  check.string(data.ruleId, `${path}.ruleId`);
+  if (data.subject !== null) {
+    check.string(data.subject, `${path}.subject`);
+  }
+  check.oneOf(data.state, `${path}.state`, ALERT_STATES);
+  check.oneOf(data.severity, `${path}.severity`, ALERT_SEVERITIES);
+  check.string(data.summary, `${path}.summary`);
+  if (typeof data.value !== 'string') {
+    check.nullableNumber(data.value, `${path}.value`);
+  }
+  check.timestamp(data.firedAt, `${path}.firedAt`);
+  if (data.state === 'resolved') {
+    check.timestamp(data.resolvedAt, `${path}.resolvedAt`);
+  } else if (data.resolvedAt !== null) {
+    check.fail(`${path}.resolvedAt`, `expected null while firing, got ${JSON.stringify(data.resolvedAt)}`);
+  }
+  if (data.triggeredBy !== null) {
+    check.string(data.triggeredBy, `${path}.triggeredBy`);
+  }
+};
+
+const checkFeedHealth: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.string(data.feed, `${path}.feed`);
+  check.oneOf(data.status, `${path}.status`, FEED_HEALTH_STATUSES);
+  if (data.lastSeenAt !== null) {
+    check.timestamp(data.lastSeenAt, `${path}.lastSeenAt`);
+  }
+  check.number(data.expectedInterval, `${path}.expectedInterval`, 0);
+  check.number(data.silentFor, `${path}.silentFor`, 0);
+};
+
+const checkSourceHealth: PayloadCheck = (check, data, path) => {
+  if (!check.object(data, path)) return;
+
+  check.string(data.name, `${path}.name`);
+  check.oneOf(data.status, `${path}.status`, SOURCE_HEALTH_STATUSES);
+  check.number(data.consecutiveFailures, `${path}.consecutiveFailures`, 0);
+  if (data.lastError !== null) {
+    check.string(data.lastError, `${path}.lastError`);
+  }
+  if (data.lastSuccessAt !== null) {
+    check.timestamp(data.lastSuccessAt, `${path}.lastSuccessAt`);
+  }
+};
+
+/** Payload schema for each known message type */
+const PAYLOAD_CHECKS: Record<string, PayloadCheck> = {
+  [MESSAGE_TYPES.CARBON_INTENSITY]: checkCarbonIntensity,
+  [MESSAGE_TYPES.CARBON_GENERATION]: checkCarbonGeneration,
+  [MESSAGE_TYPES.CARBON_FORECAST]: checkCarbonForecast,
+  [MESSAGE_TYPES.CARBON_REGIONAL]: checkRegionalCarbonIntensity,
+  [MESSAGE_TYPES.WEATHER_CURRENT]: checkWeatherCurrent,
+  [MESSAGE_TYPES.WEATHER_FORECAST]: checkWeatherForecast,
+  [MESSAGE_TYPES.CARBON_SUMMARY]: checkCarbonSummary,
+  [MESSAGE_TYPES.CARBON_GREEN_WINDOW]: checkGreenWindow,
+  [MESSAGE_TYPES.CORRELATION]: checkCorrelation,
+  [MESSAGE_TYPES.ALERT]: checkAlert,
+  [MESSAGE_TYPES.HEALTH_FEED_STALE]: checkFeedHealth,
+  [MESSAGE_TYPES.HEALTH_FEED_RECOVERED]: checkFeedHealth,
+  [MESSAGE_TYPES.HEALTH_SOURCE_FAILING]: checkSourceHealth,
+  [MESSAGE_TYPES.HEALTH_SOURCE_RECOVERED]: checkSourceHealth,
+};
+
+function validatePayload<T>(check: PayloadCheck, subject: string, data: unknown): T {
+  const checker = new Checker();
+  check(checker, data, 'data');
+  checker.throwIfInvalid(subject);
+  return data as T;
+}
+
+export function validateCarbonIntensityData(data: unknown): CarbonIntensityData {
+  return validatePayload(checkCarbonIntensity, 'carbon intensity data', data);
+}
+
+export function validateCarbonGenerationData(data: unknown): CarbonGenerationData {
+  return validatePayload(checkCarbonGeneration, 'carbon generation data', data);
+}
+
+export function validateCarbonForecastData(data: unknown): CarbonForecastData {
+  return validatePayload(checkCarbonForecast, 'carbon forecast data', data);
+}
+
+export function validateRegionalCarbonIntensityData(data: unknown): RegionalCarbonIntensityData {
+  return validatePayload(checkRegionalCarbonIntensity, 'regional carbon intensity data', data);
+}
+
+export function validateWeatherCurrentData(data: unknown): WeatherCurrentData {
+  return validatePayload(checkWeatherCurrent, 'weather current data', data);
+}
+
+export function validateWeatherForecastData(data: unknown): WeatherForecastData {
+  return validatePayload(checkWeatherForecast, 'weather forecast data', data);
+}
+
+export function validateCarbonSummaryData(data: unknown): CarbonSummaryData {
+  return validatePayload(checkCarbonSummary, 'carbon summary data', data);
+}
+
+export function validateGreenWindowData(data: unknown): GreenWindowData {
+  return validatePayload(checkGreenWindow, 'green window data', data);
+}
+
+export function validateCorrelationData(data: unknown): CorrelationData {
+  return validatePayload(checkCorrelation, 'correlation data', data);
+}
+
+export function validateAlertData(data: unknown): AlertData {
+  return validatePayload(checkAlert, 'alert data', data);
+}
+
+export function validateFeedHealthData(data: unknown): FeedHealthData {
+  return validatePayload(checkFeedHealth, 'feed health data', data);
+}
+
+export function validateSourceHealthData(data: unknown): SourceHealthData {
+  return validatePayload(checkSourceHealth, 'source health data', data);
+}
+
+// ============================================================================
+// Envelope Validation
+// ============================================================================
+
+function checkEnvelopeFields(check: Checker, value: Record<string, unknown>): void {
+  check.string(value.id, 'id');
+  check.string(value.source, 'source');
+  check.string(value.type, 'type');
+  check.timestamp(value.timestamp, 'timestamp');
+
+  if (!('data' in value)) {
+    check.fail('data', 'missing payload');
+  }
+}
+
+/**
+ * Validates an envelope and, for known message types, its payload against the
+ * current schema version. Payloads of unknown types are passed through unchecked.
+ */
+export function validateEnvelope(value: unknown): MessageEnvelope {
+  const check = new Checker();
+
+  if (check.object(value, '')) {
+    checkEnvelopeFields(check, value);
+
+    const type = typeof value.type === 'string' ? value.type : '';
+    const payloadCheck = PAYLOAD_CHECKS[type];
+    if (payloadCheck) {
+      const expected = SCHEMA_VERSIONS[type as MessageType];
+      const version = value.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+      if (version !== expected) {
+        check.fail('schemaVersion', `expected ${expected}, got ${JSON.stringify(version)}`);
+      }
+      payloadCheck(check, value.data, 'data');
+    }
+  }
+
+  check.throwIfInvalid('message envelope');
+  return value as MessageEnvelope;
+}
+
+/**
+ * Parses a message body received from RabbitMQ, upcasts older payloads to the
+ * current schema version and validates the result.
+ */
+export function parseEnvelope(content: Buffer): MessageEnvelope {
+  let value: unknown;
+  try {
+    value = JSON.parse(content.toString());
+  } catch (error) {
+    throw new ValidationError('message envelope', [
+      { path: '', message: `malformed JSON (${(error as Error).message})` },
+    ]);
+  }
+
+  const check = new Checker();
+  if (check.object(value, '')) {
+    checkEnvelopeFields(check, value);
+  }
+  check.throwIfInvalid('message envelope');
+
+  return validateEnvelope(upcastEnvelope(value as MessageEnvelope));
+}
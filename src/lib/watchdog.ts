@@ -0,0 +1,174 @@
+import { existsSync, readFileSync } from 'fs';
+import { writeFileAtomic } from './files';
+import { MessageEnvelope, FeedHealthData, MESSAGE_TYPES } from './messages';
+
+// ============================================================================
+// Cadences
+// ============================================================================
+
+/**
+ * Longest gap between two messages of each feed while it is healthy, in ms,
+ * given the default poll and heartbeat intervals. Feeds that publish only on
+ * change (green windows) are not watched.
+ */
+export const DEFAULT_FEED_CADENCES: Record<string, number> = {
+  // A new half-hour period each time
+  [MESSAGE_TYPES.CARBON_INTENSITY]: 30 * 60 * 1000,
+  [MESSAGE_TYPES.CARBON_REGIONAL]: 30 * 60 * 1000,
+  [MESSAGE_TYPES.CARBON_SUMMARY]: 30 * 60 * 1000,
+  [MESSAGE_TYPES.CORRELATION]: 30 * 60 * 1000,
+  // Unchanged readings are republished by the hourly heartbeat
+  [MESSAGE_TYPES.CARBON_GENERATION]: 60 * 60 * 1000,
+  [MESSAGE_TYPES.CARBON_FORECAST]: 60 * 60 * 1000,
+  [MESSAGE_TYPES.WEATHER_CURRENT]: 60 * 60 * 1000,
+  // Polled every 3 hours
+  [MESSAGE_TYPES.WEATHER_FORECAST]: 3 * 60 * 60 * 1000,
+};
+
+/**
+ * Applies overrides written as "type=ms" pairs, comma-separated
+ * (e.g., "feed.carbon.regional=0,feed.weather.current=1200000"). 0 stops
+ * watching a feed.
+ */
+export function parseFeedCadences(
+  value: string,
+  defaults: Record<string, number> = DEFAULT_FEED_CADENCES
+): Record<string, number> {
+  const cadences = { ...defaults };
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter((e) => e.length > 0)) {
+    const [type, ms] = entry.split('=').map((part) => part.trim());
+    const interval = parseInt(ms, 10);
+    if (!type || !Number.isInteger(interval) || interval < 0) {
+      throw new Error(`Invalid feed cadence "${entry}" (expected <type>=<ms>)`);
+    }
+
+    if (interval === 0) {
+      delete cadences[type];
+    } else {
+      cadences[type] = interval;
+    }
+  }
+
+  return cadences;
+}
+
+// ============================================================================
+// Watchdog
+// ============================================================================
+
+export interface FeedWatchdogOptions {
+  /** Expected interval per message type; types without one are not watched */
+  cadences: Record<string, number>;
+  /** A feed is stale after this many expected intervals without a message */
+  staleFactor: number;
+  /** Snapshot file; state is kept in memory only without one */
+  statePath?: string | null;
+}
+
+interface WatchdogState {
+  /** Message type -> latest envelope timestamp seen (ISO 8601) */
+  lastSeen: Record<string, string>;
+  /** Message types currently reported stale */
+  stale: string[];
+}
+
+/**
+ * Tracks the latest envelope timestamp of each feed and reports when a feed
+ * goes stale and when it recovers, once per change.
+ *
+ * Silence is measured from startup for feeds not seen before, so a feed that
+ * never appears is also reported.
+ */
+export class FeedWatchdog {
+  private cadences: Record<string, number>;
+  private staleFactor: number;
+  private statePath: string | null;
+  private lastSeen: Record<string, string> = {};
+  private stale = new Set<string>();
+  private startedAt = Date.now();
+
+  constructor(options: FeedWatchdogOptions) {
+    this.cadences = options.cadences;
+    this.staleFactor = options.staleFactor;
+    this.statePath = options.statePath ?? null;
+    this.load();
+  }
+
+  /** Feeds currently reported stale */
+  get staleFeeds(): string[] {
+    return [...this.stale];
+  }
+
+  /** Records a message; returns a recovered event if its feed was stale */
+  observe(envelope: MessageEnvelope, now = new Date()): FeedHealthData | null {
+    const previous = this.lastSeen[envelope.type];
+    // Redelivered and replayed messages never move the feed back in time
+    if (!previous || Date.parse(envelope.timestamp) > Date.parse(previous)) {
+      this.lastSeen[envelope.type] = envelope.timestamp;
+    }
+
+    if (!this.stale.has(envelope.type) || this.isSilent(envelope.type, now)) {
+      return null;
+    }
+
+    this.stale.delete(envelope.type);
+    return this.toHealthData(envelope.type, 'recovered', now, previous ?? null);
+  }
+
+  /** Returns a stale event for every watched feed that has just gone quiet */
+  check(now = new Date()): FeedHealthData[] {
+    const events: FeedHealthData[] = [];
+
+    for (const feed of Object.keys(this.cadences)) {
+      if (!this.stale.has(feed) && this.isSilent(feed, now)) {
+        this.stale.add(feed);
+        events.push(this.toHealthData(feed, 'stale', now, this.lastSeen[feed] ?? null));
+      }
+    }
+
+    return events;
+  }
+
+  /** Writes the state to the state path, if there is one */
+  save(): void {
+    if (!this.statePath) return;
+
+    const state: WatchdogState = { lastSeen: this.lastSeen, stale: [...this.stale] };
+    writeFileAtomic(this.statePath, JSON.stringify(state));
+  }
+
+  private load(): void {
+    if (!this.statePath || !existsSync(this.statePath)) return;
+
+    const state = JSON.parse(readFileSync(this.statePath, 'utf-8')) as WatchdogState;
+    this.lastSeen = state.lastSeen;
+    this.stale = new Set(state.stale);
+  }
+
+  private isSilent(feed: string, now: Date): boolean {
+    const cadence = this.cadences[feed];
+    if (cadence === undefined) return false;
+
+    const lastSeen = this.lastSeen[feed];
+    const since = lastSeen ? Date.parse(lastSeen) : this.startedAt;
+    return now.getTime() - since > cadence * this.staleFactor;
+  }
+
+  private toHealthData(
+    feed: string,
+    status: FeedHealthData['status'],
+    now: Date,
+    lastSeenAt: string | null
+  ): FeedHealthData {
+    const since = lastSeenAt ? Date.parse(lastSeenAt) : this.startedAt;
+
+    return {
+      feed,
+      status,
+      lastSeenAt,
+      expectedInterval: this.cadences[feed] ?? 0,
+      silentFor: Math.max(0, now.getTime() - since),
+    };
+  }
+}
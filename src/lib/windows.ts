@@ -0,0 +1,211 @@
+import { existsSync, readFileSync } from 'fs';
+import { writeFileAtomic } from './files';
+import {
+  CarbonIntensityData,
+  CarbonGenerationData,
+  CarbonSummaryData,
+  CarbonSummaryWindow,
+  GenerationMixEntry,
+  FuelType,
+  IntensityWindowStats,
+  GenerationWindowStats,
+  RENEWABLE_FUELS,
+  SUMMARY_WINDOWS,
+  SummaryWindow,
+} from './messages';
+
+const WINDOW_DURATIONS: Record<SummaryWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// Readings older than the longest window are dropped
+const RETENTION = Math.max(...Object.values(WINDOW_DURATIONS));
+
+interface IntensityPoint {
+  periodStart: string;
+  forecast: number;
+  actual: number | null;
+}
+
+interface GenerationPoint {
+  periodStart: string;
+  /** When the mix was fetched; the latest fetch of a period wins */
+  timestamp: string;
+  mix: GenerationMixEntry[];
+}
+
+interface Snapshot {
+  intensity: IntensityPoint[];
+  generation: GenerationPoint[];
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Intensity and generation readings for the last 7 days, summarised over
+ * rolling 1h, 24h and 7d windows.
+ *
+ * Readings are keyed by period start, so redeliveries, revisions, generation
+ * re-polls and heartbeats, and backfilled history never double count. With
+ * a state path the readings are loaded on construction and written by save();
+ * reload() merges in a snapshot written by another instance.
+ */
+export class RollingWindows {
+  private intensity = new Map<string, IntensityPoint>();
+  private generation = new Map<string, GenerationPoint>();
+  private statePath: string | null;
+
+  constructor(statePath: string | null = null) {
+    this.statePath = statePath;
+    this.load();
+  }
+
+  /** Number of readings held, per feed */
+  get size(): { intensity: number; generation: number } {
+    return { intensity: this.intensity.size, generation: this.generation.size };
+  }
+
+  addIntensity(data: CarbonIntensityData): void {
+    this.addIntensityPoint({ periodStart: data.periodStart, forecast: data.forecast, actual: data.actual });
+  }
+
+  addGeneration(data: CarbonGenerationData): void {
+    this.addGenerationPoint({ periodStart: data.periodStart, timestamp: data.timestamp, mix: data.mix });
+  }
+
+  /** Computes every window ending at the given time */
+  summarize(now = new Date()): CarbonSummaryData {
+    this.prune(now);
+
+    return {
+      generatedAt: now.toISOString(),
+      windows: SUMMARY_WINDOWS.map((window) => this.summarizeWindow(window, now)),
+    };
+  }
+
+  /** Writes the readings to the state path, if there is one */
+  save(): void {
+    if (!this.statePath) return;
+
+    const snapshot: Snapshot = {
+      intensity: [...this.intensity.values()],
+      generation: [...this.generation.values()],
+    };
+
+    writeFileAtomic(this.statePath, JSON.stringify(snapshot));
+  }
+
+  /**
+   * Merges the snapshot into the readings held. Both are keyed by period, so
+   * readings newer than the snapshot are kept and nothing is counted twice.
+   */
+  reload(): void {
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.statePath || !existsSync(this.statePath)) return;
+
+    const snapshot = JSON.parse(readFileSync(this.statePath, 'utf-8')) as Snapshot;
+    for (const point of snapshot.intensity) {
+      this.addIntensityPoint(point);
+    }
+    for (const point of snapshot.generation) {
+      this.addGenerationPoint(point);
+    }
+    this.prune(new Date());
+  }
+
+  private addIntensityPoint(point: IntensityPoint): void {
+    const existing = this.intensity.get(point.periodStart);
+
+    this.intensity.set(point.periodStart, {
+      ...point,
+      // A revision without an actual never erases one already seen
+      actual: point.actual ?? existing?.actual ?? null,
+    });
+  }
+
+  private addGenerationPoint(point: GenerationPoint): void {
+    const existing = this.generation.get(point.periodStart);
+    if (!existing || Date.parse(point.timestamp) >= Date.parse(existing.timestamp)) {
+      this.generation.set(point.periodStart, point);
+    }
+  }
+
+  private prune(now: Date): void {
+    const cutoff = now.getTime() - RETENTION;
+
+    for (const [key, point] of this.intensity) {
+      if (Date.parse(point.periodStart) < cutoff) this.intensity.delete(key);
+    }
+    for (const [key, point] of this.generation) {
+      if (Date.parse(point.periodStart) < cutoff) this.generation.delete(key);
+    }
+  }
+
+  private summarizeWindow(window: SummaryWindow, now: Date): CarbonSummaryWindow {
+    const to = now.getTime();
+    const from = to - WINDOW_DURATIONS[window];
+    const inWindow = (time: string) => {
+      const t = Date.parse(time);
+      return t >= from && t <= to;
+    };
+
+    return {
+      window,
+      from: new Date(from).toISOString(),
+      to: now.toISOString(),
+      intensity: this.intensityStats(
+        [...this.intensity.values()].filter((p) => inWindow(p.periodStart))
+      ),
+      generation: this.generationStats(
+        [...this.generation.values()].filter((p) => inWindow(p.periodStart))
+      ),
+    };
+  }
+
+  private intensityStats(points: IntensityPoint[]): IntensityWindowStats {
+    const withActual = points.filter(
+      (p): p is IntensityPoint & { actual: number } => p.actual !== null
+    );
+
+    return {
+      periods: points.length,
+      averageForecast: average(points.map((p) => p.forecast)),
+      averageActual: average(withActual.map((p) => p.actual)),
+      meanAbsoluteError: average(withActual.map((p) => Math.abs(p.forecast - p.actual))),
+    };
+  }
+
+  private generationStats(points: GenerationPoint[]): GenerationWindowStats {
+    const totals = new Map<FuelType, number>();
+    for (const point of points) {
+      for (const entry of point.mix) {
+        totals.set(entry.fuel, (totals.get(entry.fuel) ?? 0) + entry.percentage);
+      }
+    }
+
+    // A fuel missing from a reading counts as 0% for that reading
+    const averageMix = [...totals.entries()]
+      .map(([fuel, total]) => ({ fuel, percentage: Math.round((total / points.length) * 10) / 10 }))
+      .sort((a, b) => b.percentage - a.percentage);
+
+    const renewableShares = points.map((point) =>
+      point.mix
+        .filter((entry) => RENEWABLE_FUELS.includes(entry.fuel))
+        .reduce((sum, entry) => sum + entry.percentage, 0)
+    );
+
+    return {
+      readings: points.length,
+      averageMix,
+      renewablePercentage: average(renewableShares),
+    };
+  }
+}
@@ -0,0 +1,362 @@
+import 'dotenv/config';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { getConnectionManager } from '../lib/connection';
+import { writeFileAtomic } from '../lib/files';
+import { setupTopology, ROUTING_KEYS } from '../lib/topology';
+import { Publisher } from '../lib/publisher';
+import { RateLimiter, RateLimitError, calculateBackoff, fetchJson } from '../lib/ingester';
+import {
+  CARBON_API_BASE_URL,
+  IntensityApiResponse,
+  GenerationRangeApiResponse,
+  toIntensityData,
+  toGenerationMix,
+  formatApiTime,
+} from '../lib/carbon-api';
+import {
+  MESSAGE_SOURCES,
+  MESSAGE_HEADERS,
+  MessageEnvelope,
+  createCarbonIntensityMessage,
+  createCarbonGenerationMessage,
+} from '../lib/messages';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('Backfill');
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+const USAGE = `Usage: npm run backfill -- --from <iso> --to <iso> [options]
+
+Publishes historical half-hour periods from the Carbon Intensity API as
+normal feed.carbon.intensity / feed.carbon.generation messages, marked with
+the ${MESSAGE_HEADERS.BACKFILL} header.
+
+Options:
+  --from <iso>         Start of the range (inclusive), e.g. 2024-01-01
+  --to <iso>           End of the range (exclusive), e.g. 2024-01-08
+  --feeds <list>       Feeds to backfill: intensity,generation (default both)
+  --chunk-hours <n>    Hours fetched per API call, at most 336 (default 24)
+  --rate <n>           Maximum API calls per minute (default 30)
+  --checkpoint <file>  Progress file (default ./data/backfill/checkpoint.json)
+  --restart            Ignore an existing checkpoint and start from --from
+  --help               Show this help
+
+Progress is checkpointed after every chunk. Rerunning with the same range
+resumes where the previous run stopped.`;
+
+const FEEDS = ['intensity', 'generation'] as const;
+type Feed = (typeof FEEDS)[number];
+
+const HALF_HOUR_MS = 30 * 60 * 1000;
+// The API rejects date ranges longer than 14 days
+const MAX_CHUNK_HOURS = 14 * 24;
+const MAX_ATTEMPTS = 5;
+
+interface Options {
+  from: Date;
+  to: Date;
+  feeds: Feed[];
+  chunkMs: number;
+  rate: number;
+  checkpointPath: string;
+  restart: boolean;
+}
+
+// ============================================================================
+// Checkpoint
+// ============================================================================
+
+/** Progress of a backfill run: for each feed, everything before the cursor is published */
+interface Checkpoint {
+  from: string;
+  to: string;
+  cursors: Partial<Record<Feed, string>>;
+}
+
+function loadCheckpoint(options: Options): Checkpoint {
+  const fresh: Checkpoint = {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    cursors: {},
+  };
+
+  if (options.restart || !existsSync(options.checkpointPath)) {
+    return fresh;
+  }
+
+  const saved = JSON.parse(readFileSync(options.checkpointPath, 'utf-8')) as Checkpoint;
+  if (saved.from !== fresh.from || saved.to !== fresh.to) {
+    throw new Error(
+      `${options.checkpointPath} belongs to a backfill of ${saved.from} → ${saved.to}; ` +
+        'pass --restart or a different --checkpoint'
+    );
+  }
+  return saved;
+}
+
+function saveCheckpoint(path: string, checkpoint: Checkpoint): void {
+  writeFileAtomic(path, JSON.stringify(checkpoint, null, 2) + '\n');
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+// Created from --rate once the arguments are parsed
+let rateLimiter: RateLimiter | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetches one chunk, throttled by the shared rate limiter and retried with
+ * backoff. Gives up after MAX_ATTEMPTS so the run can be resumed later.
+ */
+async function fetchChunk<T>(url: string): Promise<T> {
+  const backoff = { baseDelay: 5000, maxDelay: 120000, jitter: 0.2 };
+
+  for (let attempt = 1; ; attempt++) {
+    await rateLimiter?.acquire();
+
+    try {
+      return await fetchJson<T>(url);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        const wait = error.retryAfter ?? 60000;
+        log.warn(`Rate limited, waiting ${wait}ms`);
+        rateLimiter?.pause(wait);
+        continue;
+      }
+      if (attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      const delay = calculateBackoff(attempt, backoff);
+      log.warn(`Fetch failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms`, { error });
+      await sleep(delay);
+    }
+  }
+}
+
+/** True if a period starts inside the chunk; ranges overlap at their edges */
+function inChunk(periodStart: string, start: Date, end: Date): boolean {
+  const time = Date.parse(periodStart);
+  return time >= start.getTime() && time < end.getTime();
+}
+
+async function fetchIntensityChunk(start: Date, end: Date): Promise<MessageEnvelope[]> {
+  const url = `${CARBON_API_BASE_URL}/intensity/${formatApiTime(start)}/${formatApiTime(end)}`;
+  const json = await fetchChunk<IntensityApiResponse>(url);
+
+  return json.data
+    .filter((period) => inChunk(period.from, start, end))
+    .map((period) => createCarbonIntensityMessage(toIntensityData(period)));
+}
+
+async function fetchGenerationChunk(start: Date, end: Date): Promise<MessageEnvelope[]> {
+  const url = `${CARBON_API_BASE_URL}/generation/${formatApiTime(start)}/${formatApiTime(end)}`;
+  const json = await fetchChunk<GenerationRangeApiResponse>(url);
+
+  return json.data
+    .filter((period) => inChunk(period.from, start, end))
+    .map((period) =>
+      createCarbonGenerationMessage({
+        periodStart: period.from,
+        // Historical readings are stamped with the start of their period
+        timestamp: new Date(period.from).toISOString(),
+        mix: toGenerationMix(period.generationmix),
+      })
+    );
+}
+
+const FEED_SOURCES: Record<Feed, { routingKey: string; fetchMessages: typeof fetchIntensityChunk }> = {
+  intensity: { routingKey: ROUTING_KEYS.CARBON_INTENSITY, fetchMessages: fetchIntensityChunk },
+  generation: { routingKey: ROUTING_KEYS.CARBON_GENERATION, fetchMessages: fetchGenerationChunk },
+};
+
+// ============================================================================
+// Backfill
+// ============================================================================
+
+async function backfillFeed(
+  feed: Feed,
+  options: Options,
+  checkpoint: Checkpoint,
+  publisher: Publisher
+): Promise<void> {
+  const { routingKey, fetchMessages } = FEED_SOURCES[feed];
+  const resumeFrom = checkpoint.cursors[feed];
+  let cursor = resumeFrom ? new Date(resumeFrom) : options.from;
+
+  if (cursor >= options.to) {
+    log.info(`${feed}: already complete`);
+    return;
+  }
+  if (resumeFrom) {
+    log.info(`${feed}: resuming from ${resumeFrom}`);
+  }
+
+  let published = 0;
+
+  while (cursor < options.to) {
+    const end = new Date(Math.min(cursor.getTime() + options.chunkMs, options.to.getTime()));
+    const messages = await fetchMessages(cursor, end);
+
+    for (const message of messages) {
+      await publisher.publish(message, routingKey, {
+        headers: { [MESSAGE_HEADERS.BACKFILL]: true },
+      });
+    }
+    published += messages.length;
+
+    checkpoint.cursors[feed] = end.toISOString();
+    saveCheckpoint(options.checkpointPath, checkpoint);
+
+    log.info(
+      `${feed}: ${cursor.toISOString()} → ${end.toISOString()}, ` +
+        `${messages.length} period(s) (${published} this run)`
+    );
+    cursor = end;
+  }
+}
+
+// ============================================================================
+// Argument Parsing
+// ============================================================================
+
+function parseDate(value: string | undefined, flag: string): Date {
+  if (value === undefined) {
+    throw new Error(`--${flag} is required`);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${flag}: ${value}`);
+  }
+  // Periods start on the half hour
+  return new Date(Math.floor(date.getTime() / HALF_HOUR_MS) * HALF_HOUR_MS);
+}
+
+function parsePositiveInt(value: string, flag: string): number {
+  const n = parseInt(value, 10);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`--${flag} must be a positive integer, got ${value}`);
+  }
+  return n;
+}
+
+function parseCli(): { options: Options | null; help: boolean } {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      feeds: { type: 'string', default: FEEDS.join(',') },
+      'chunk-hours': { type: 'string', default: '24' },
+      rate: { type: 'string', default: '30' },
+      checkpoint: { type: 'string', default: './data/backfill/checkpoint.json' },
+      restart: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    return { options: null, help: true };
+  }
+
+  const from = parseDate(values.from, 'from');
+  const to = parseDate(values.to, 'to');
+  if (from >= to) {
+    throw new Error('--from must be before --to');
+  }
+  if (to.getTime() > Date.now()) {
+    throw new Error('--to must not be in the future; live periods come from the ingester');
+  }
+
+  const feeds = values.feeds.split(',').map((f) => f.trim());
+  for (const feed of feeds) {
+    if (!(FEEDS as readonly string[]).includes(feed)) {
+      throw new Error(`Unknown feed "${feed}" (expected ${FEEDS.join(', ')})`);
+    }
+  }
+
+  const chunkHours = parsePositiveInt(values['chunk-hours'], 'chunk-hours');
+  if (chunkHours > MAX_CHUNK_HOURS) {
+    throw new Error(`--chunk-hours must be at most ${MAX_CHUNK_HOURS}`);
+  }
+
+  return {
+    help: false,
+    options: {
+      from,
+      to,
+      feeds: feeds as Feed[],
+      chunkMs: chunkHours * 60 * 60 * 1000,
+      rate: parsePositiveInt(values.rate, 'rate'),
+      checkpointPath: values.checkpoint,
+      restart: values.restart,
+    },
+  };
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  const { options, help } = parseCli();
+
+  if (help || !options) {
+    console.log(USAGE);
+    return;
+  }
+
+  const checkpoint = loadCheckpoint(options);
+  rateLimiter = new RateLimiter(options.rate);
+
+  log.info(`${options.from.toISOString()} → ${options.to.toISOString()}`);
+  log.info(`Feeds: ${options.feeds.join(', ')}, at most ${options.rate} calls/min`);
+
+  const manager = getConnectionManager();
+  // Kept apart from the live ingester's outbox, which that process owns
+  const publisher = new Publisher({
+    source: MESSAGE_SOURCES.CARBON_INGESTER,
+    logPrefix: 'Backfill',
+    manager,
+    outboxDir: join(process.env.OUTBOX_DIR || './data/outbox', 'backfill'),
+  });
+
+  try {
+    const channel = await manager.getChannel();
+    await setupTopology(channel);
+    await publisher.start();
+
+    try {
+      for (const feed of options.feeds) {
+        await backfillFeed(feed, options, checkpoint, publisher);
+      }
+    } catch (error) {
+      log.error(`Stopped, progress saved to ${options.checkpointPath}; rerun to resume`);
+      throw error;
+    }
+
+    await publisher.flush();
+    if (publisher.backlog > 0) {
+      log.warn(`${publisher.backlog} message(s) still in the outbox; rerun to publish them`);
+    }
+
+    log.info('Complete');
+  } finally {
+    publisher.stop();
+    await manager.close();
+  }
+}
+
+main().catch((error) => {
+  log.error('Failed', { error });
+  process.exit(1);
+});
@@ -0,0 +1,384 @@
+import 'dotenv/config';
+import { writeFileSync } from 'fs';
+import { createInterface } from 'readline/promises';
+import { parseArgs } from 'util';
+import { GetMessage, MessagePropertyHeaders, XDeath } from 'amqplib';
+import { getConnectionManager, Channel } from '../lib/connection';
+import { setupTopology, EXCHANGES, QUEUES } from '../lib/topology';
+import { RETRY_HEADERS, getOriginalRoutingKey } from '../lib/retry';
+import { MessageEnvelope } from '../lib/messages';
+import { createLogger } from '../lib/logger';
+
+// Progress goes through the logger; the listing and usage are plain output
+const log = createLogger('DLQ');
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+const USAGE = `Usage: npm run dlq -- <command> [options]
+
+Commands:
+  list                 Show dead-lettered messages (default)
+  dump --out <file>    Write matching messages to a JSONL file
+  replay               Republish matching messages to the queue that failed them
+  purge                Permanently remove matching messages
+
+Filters:
+  --id <id,...>        Only messages with these envelope ids
+  --type <type>        Only messages of this envelope type
+  --source <source>    Only messages from this source
+  --since <iso>        Only messages first dead-lettered at or after this time
+  --until <iso>        Only messages first dead-lettered before this time
+
+Options:
+  --yes                Skip the confirmation prompt for replay/purge
+  --help               Show this help
+
+Every command peeks first: messages are held unacked while inspected and
+returned to ${QUEUES.DLQ} untouched unless a replay or purge is confirmed.`;
+
+type Command = 'list' | 'dump' | 'replay' | 'purge';
+
+interface Filters {
+  ids: Set<string> | null;
+  type?: string;
+  source?: string;
+  since?: Date;
+  until?: Date;
+}
+
+// ============================================================================
+// Dead-Lettered Message View
+// ============================================================================
+
+interface DeadLetter {
+  msg: GetMessage;
+  /** Parsed envelope, null if the body is not valid JSON */
+  envelope: MessageEnvelope | null;
+  id: string;
+  type: string;
+  source: string;
+  originalRoutingKey: string;
+  /** Queue whose consumer or length limit dead-lettered the message, if known */
+  failedQueue: string | null;
+  reason: string;
+  deathCount: number;
+  firstDeathAt: Date | null;
+}
+
+function parseEnvelope(content: Buffer): MessageEnvelope | null {
+  try {
+    return JSON.parse(content.toString()) as MessageEnvelope;
+  } catch {
+    return null;
+  }
+}
+
+function toDeadLetter(msg: GetMessage): DeadLetter {
+  const envelope = parseEnvelope(msg.content);
+  const deaths: XDeath[] = msg.properties.headers?.['x-death'] ?? [];
+
+  // x-death is ordered most recent first; the rejection by a consumer is the
+  // entry that sent the message here
+  const latest = deaths.find((death) => death.reason !== 'expired') ?? deaths[0];
+  const deathTimes = deaths.map((death) => death.time.value * 1000);
+
+  // Messages dead-lettered with a reason header bypass x-death entirely
+  const headers = msg.properties.headers ?? {};
+  const explicitReason = headers[RETRY_HEADERS.DEAD_LETTER_REASON];
+  const deadLetteredAt = Date.parse(headers[RETRY_HEADERS.DEAD_LETTERED_AT] ?? '');
+  if (!isNaN(deadLetteredAt)) {
+    deathTimes.push(deadLetteredAt);
+  }
+
+  // x-first-death-queue names the first delay queue of a retried message, so
+  // it is only the fallback
+  const firstDeathQueue = headers['x-first-death-queue'];
+  const failedQueue =
+    headers[RETRY_HEADERS.DEAD_LETTER_QUEUE] ??
+    (deaths.find((death) => death.reason !== 'expired')?.queue ||
+      (typeof firstDeathQueue === 'string' ? firstDeathQueue : null));
+
+  let reason = 'unknown';
+  if (explicitReason) {
+    reason = `${explicitReason} (${headers[RETRY_HEADERS.DEAD_LETTER_QUEUE] ?? 'unknown queue'})`;
+  } else if (latest) {
+    reason = `${latest.reason} by ${latest.queue}`;
+  }
+
+  return {
+    msg,
+    envelope,
+    id: envelope?.id ?? msg.properties.messageId ?? '(unknown)',
+    type: envelope?.type ?? '(unparseable)',
+    source: envelope?.source ?? msg.properties.appId ?? '(unknown)',
+    originalRoutingKey: getOriginalRoutingKey(msg),
+    failedQueue,
+    reason,
+    deathCount: latest?.count ?? 1,
+    firstDeathAt: deathTimes.length > 0 ? new Date(Math.min(...deathTimes)) : null,
+  };
+}
+
+function matches(entry: DeadLetter, filters: Filters): boolean {
+  if (filters.ids && !filters.ids.has(entry.id)) return false;
+  if (filters.type && entry.type !== filters.type) return false;
+  if (filters.source && entry.source !== filters.source) return false;
+
+  const at = entry.firstDeathAt ?? (entry.envelope ? new Date(entry.envelope.timestamp) : null);
+  if (filters.since && (!at || at < filters.since)) return false;
+  if (filters.until && (!at || at >= filters.until)) return false;
+
+  return true;
+}
+
+function formatEntry(entry: DeadLetter): string {
+  const firstDeath = entry.firstDeathAt?.toISOString() ?? 'unknown';
+  const lastError = entry.msg.properties.headers?.[RETRY_HEADERS.LAST_ERROR];
+  const lines = [
+    `${entry.id} | ${entry.type} | ${entry.source}`,
+    `    routing key: ${entry.originalRoutingKey} | ${entry.reason} (x${entry.deathCount}) | first death: ${firstDeath}`,
+  ];
+  if (lastError) {
+    lines.push(`    last error: ${lastError}`);
+  }
+  return lines.join('\n');
+}
+
+function toJsonLine(entry: DeadLetter): string {
+  return JSON.stringify({
+    id: entry.id,
+    type: entry.type,
+    source: entry.source,
+    originalRoutingKey: entry.originalRoutingKey,
+    failedQueue: entry.failedQueue,
+    reason: entry.reason,
+    deathCount: entry.deathCount,
+    firstDeathAt: entry.firstDeathAt?.toISOString() ?? null,
+    headers: entry.msg.properties.headers ?? {},
+    envelope: entry.envelope,
+    raw: entry.envelope ? undefined : entry.msg.content.toString('base64'),
+  });
+}
+
+// ============================================================================
+// Queue Access
+// ============================================================================
+
+/**
+ * Takes every message currently in the DLQ without acking it, so nothing is
+ * lost if the process dies. Messages stay invisible to other readers until
+ * they are acked or released.
+ */
+async function peekAll(channel: Channel): Promise<DeadLetter[]> {
+  const { messageCount } = await channel.checkQueue(QUEUES.DLQ);
+  const entries: DeadLetter[] = [];
+
+  for (let i = 0; i < messageCount; i++) {
+    const msg = await channel.get(QUEUES.DLQ, { noAck: false });
+    if (!msg) break;
+    entries.push(toDeadLetter(msg));
+  }
+
+  return entries;
+}
+
+/** Returns messages to the DLQ unchanged */
+function release(channel: Channel, entries: DeadLetter[]): void {
+  for (const entry of entries) {
+    channel.nack(entry.msg, false, true);
+  }
+}
+
+/** Strips dead-letter and retry bookkeeping so a replay starts fresh */
+function replayHeaders(headers: MessagePropertyHeaders | undefined): MessagePropertyHeaders {
+  const cleaned: MessagePropertyHeaders = { ...headers };
+  for (const key of Object.keys(cleaned)) {
+    if (key.startsWith('x-death') || key.startsWith('x-first-death') || key.startsWith('x-last-death')) {
+      delete cleaned[key];
+    }
+  }
+  delete cleaned[RETRY_HEADERS.RETRY_COUNT];
+  delete cleaned[RETRY_HEADERS.ORIGINAL_ROUTING_KEY];
+  delete cleaned[RETRY_HEADERS.LAST_ERROR];
+  delete cleaned[RETRY_HEADERS.DEAD_LETTER_REASON];
+  delete cleaned[RETRY_HEADERS.DEAD_LETTER_QUEUE];
+  delete cleaned[RETRY_HEADERS.DEAD_LETTERED_AT];
+  return cleaned;
+}
+
+/**
+ * Republishes each message straight to the queue that failed it, through the
+ * default exchange, so queues that processed it already do not get it again.
+ * The original routing key travels in a header, as for retries. Messages whose
+ * queue is unknown go back to the topic exchange with their original routing
+ * key. Each is acked from the DLQ only once the broker has confirmed the publish.
+ */
+async function replay(channel: Channel, entries: DeadLetter[]): Promise<void> {
+  const connection = await getConnectionManager().connect();
+  const confirmChannel = await connection.createConfirmChannel();
+
+  try {
+    for (const entry of entries) {
+      const { properties } = entry.msg;
+      const headers = replayHeaders(properties.headers);
+      if (entry.failedQueue) {
+        // A CC would be read as a queue name by the default exchange
+        delete headers.CC;
+        headers[RETRY_HEADERS.ORIGINAL_ROUTING_KEY] = entry.originalRoutingKey;
+      } else {
+        log.warn('Failed queue unknown, replaying to every bound queue', { messageId: entry.id });
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        confirmChannel.publish(
+          entry.failedQueue ? '' : EXCHANGES.TOPIC,
+          entry.failedQueue ?? entry.originalRoutingKey,
+          entry.msg.content,
+          {
+            contentType: properties.contentType,
+            contentEncoding: properties.contentEncoding,
+            deliveryMode: 2, // persistent
+            messageId: properties.messageId,
+            timestamp: properties.timestamp,
+            appId: properties.appId,
+            headers,
+          },
+          (err) => (err ? reject(err) : resolve())
+        );
+      });
+      channel.ack(entry.msg);
+      log.info('Replayed', { messageId: entry.id, queue: entry.failedQueue, routingKey: entry.originalRoutingKey });
+    }
+  } finally {
+    await confirmChannel.close();
+  }
+}
+
+function purge(channel: Channel, entries: DeadLetter[]): void {
+  for (const entry of entries) {
+    channel.ack(entry.msg);
+    log.info('Purged', { messageId: entry.id });
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    log.error('Not a terminal, pass --yes to confirm');
+    return false;
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return answer.trim().toLowerCase() === 'y';
+  } finally {
+    rl.close();
+  }
+}
+
+// ============================================================================
+// Argument Parsing
+// ============================================================================
+
+function parseDate(value: string | undefined, flag: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${flag}: ${value}`);
+  }
+  return date;
+}
+
+function parseCli() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      id: { type: 'string' },
+      type: { type: 'string' },
+      source: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      out: { type: 'string' },
+      yes: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  const command = (positionals[0] ?? 'list') as Command;
+  if (!['list', 'dump', 'replay', 'purge'].includes(command)) {
+    throw new Error(`Unknown command: ${command}`);
+  }
+  if (command === 'dump' && !values.out) {
+    throw new Error('dump requires --out <file>');
+  }
+
+  const filters: Filters = {
+    ids: values.id ? new Set(values.id.split(',').map((id) => id.trim())) : null,
+    type: values.type,
+    source: values.source,
+    since: parseDate(values.since, 'since'),
+    until: parseDate(values.until, 'until'),
+  };
+
+  return { command, filters, out: values.out, yes: values.yes, help: values.help };
+}
+
+// ============================================================================
+// Main Entry Point
+// ============================================================================
+
+async function main(): Promise<void> {
+  const { command, filters, out, yes, help } = parseCli();
+
+  if (help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const manager = getConnectionManager();
+
+  try {
+    const channel = await manager.getChannel();
+    await setupTopology(channel);
+
+    const entries = await peekAll(channel);
+    const selected = entries.filter((entry) => matches(entry, filters));
+    const untouched = entries.filter((entry) => !selected.includes(entry));
+
+    log.info(`${entries.length} message(s) in ${QUEUES.DLQ}, ${selected.length} matching`);
+    selected.forEach((entry) => console.log(formatEntry(entry)));
+
+    release(channel, untouched);
+
+    if (command === 'dump' && out) {
+      writeFileSync(out, selected.map((entry) => toJsonLine(entry) + '\n').join(''));
+      log.info(`Wrote ${selected.length} message(s) to ${out}`);
+    }
+
+    if ((command === 'replay' || command === 'purge') && selected.length > 0) {
+      const confirmed = yes || (await confirm(`${command} ${selected.length} message(s)?`));
+      if (confirmed) {
+        if (command === 'replay') {
+          await replay(channel, selected);
+        } else {
+          purge(channel, selected);
+        }
+        log.info(`${command} complete`);
+        return;
+      }
+      log.info('Aborted, messages left in place');
+    }
+
+    release(channel, selected);
+  } finally {
+    await manager.close();
+  }
+}
+
+main().catch((error) => {
+  log.error('Failed', { error });
+  console.error(USAGE);
+  process.exit(1);
+});